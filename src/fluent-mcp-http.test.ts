@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { request } from 'http';
+import { z } from 'zod';
+import { createMCP, FluentMCP, allowedHostsFor, isAllowedRequest } from './fluent-mcp.js';
+
+describe('FluentMCP over HTTP', () => {
+  let server: FluentMCP;
+  let baseUrl: string;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    server = createMCP('HTTP test', '1.0.0')
+      .tool('echo', { text: z.string() }, async ({ text }: { text: string }) => ({ content: [{ type: 'text', text }] }))
+      .mcpResource('greeting', 'test://greeting', { mimeType: 'text/plain' }, async uri => ({
+        contents: [{ uri: uri.href, text: 'hello' }]
+      }));
+
+    await server.http({ port: 0 }).start();
+    baseUrl = `http://127.0.0.1:${server.address()!.port}`;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await server.close();
+  });
+
+  const connect = async (transport: StreamableHTTPClientTransport | SSEClientTransport) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  const echo = async (client: Client, text: string) => {
+    const result = await client.callTool({ name: 'echo', arguments: { text } });
+    return (result.content as { text: string }[])[0].text;
+  };
+
+  it('should serve several clients over streamable HTTP and SSE at once', async () => {
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const legacy = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    expect(await echo(first, 'one')).toBe('one');
+    expect(await echo(second, 'two')).toBe('two');
+    expect(await echo(legacy, 'three')).toBe('three');
+  });
+
+  it('should only notify the sessions that subscribed', async () => {
+    const subscriber = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const bystander = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const received: string[] = [];
+    subscriber.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      received.push(`subscriber ${notification.params.uri}`);
+    });
+    bystander.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      received.push(`bystander ${notification.params.uri}`);
+    });
+
+    await subscriber.subscribeResource({ uri: 'test://greeting' });
+    server.notifyResourceUpdated('test://greeting');
+
+    await vi.waitFor(() => expect(received).toEqual(['subscriber test://greeting']));
+    // Give a stray notification to the bystander time to arrive
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(received).toEqual(['subscriber test://greeting']);
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('Expected an initialize request');
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+
+  it('should reject other hosts, other origins and oversized bodies', async () => {
+    // fetch can't set Host, which is what a DNS-rebinding page would send
+    const status = await new Promise<number>((resolve, reject) => {
+      request(`${baseUrl}/mcp`, { method: 'POST', headers: { Host: 'evil.example:80' } }, response => resolve(response.statusCode as number))
+        .on('error', reject)
+        .end('{}');
+    });
+    expect(status).toBe(403);
+
+    const post = (headers: Record<string, string>, body = '{}') => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body
+    });
+    expect((await post({ Origin: 'https://evil.example' })).status).toBe(403);
+    expect((await post({ Origin: baseUrl })).status).toBe(400);
+    expect((await post({}, JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }))).status).toBe(413);
+  });
+});
+
+describe('isAllowedRequest', () => {
+  const req = (headers: Record<string, string>) => ({ headers }) as unknown as Parameters<typeof isAllowedRequest>[0];
+
+  it('should accept the local names of a local server and allowed origins', () => {
+    const allowed = { hosts: allowedHostsFor('127.0.0.1', 3000), origins: ['https://dash.example'] };
+
+    expect(isAllowedRequest(req({ host: 'localhost:3000' }), allowed)).toBe(true);
+    expect(isAllowedRequest(req({ host: '127.0.0.1:3000', origin: 'https://dash.example' }), allowed)).toBe(true);
+    expect(isAllowedRequest(req({ host: 'localhost:3001' }), allowed)).toBe(false);
+    expect(isAllowedRequest(req({ host: 'localhost:3000', origin: 'null' }), allowed)).toBe(false);
+  });
+
+  it('should only require same-origin browser requests when listening everywhere', () => {
+    const allowed = { hosts: allowedHostsFor('0.0.0.0', 3000) };
+
+    expect(isAllowedRequest(req({ host: 'devbox:3000' }), allowed)).toBe(true);
+    expect(isAllowedRequest(req({ host: 'devbox:3000', origin: 'http://devbox:3000' }), allowed)).toBe(true);
+    expect(isAllowedRequest(req({ host: 'devbox:3000', origin: 'http://evil.example' }), allowed)).toBe(false);
+  });
+});
@@ -1,6 +1,39 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IncomingMessage, Server } from "node:http";
+import { McpServer, ListResourcesCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { GetPromptResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+export interface HttpOptions {
+  port?: number;
+  host?: string;
+  // Where streamable HTTP clients connect; defaults to /mcp
+  path?: string;
+  // Host header values to accept; defaults to the listening host and port, or any when listening on every interface
+  allowedHosts?: string[];
+  // Origins browsers may call from besides the allowed hosts
+  allowedOrigins?: string[];
+}
+
+/**
+ * The Host header values a server listening on host:port answers to. A server listening on
+ * every interface can be reached under any name, so null is returned and the Host isn't restricted.
+ */
+export function allowedHostsFor(host: string, port: number): string[] | null;
+
+/**
+ * Whether an HTTP request may be served. Its Host must be one the server answers to, so a page
+ * can't reach a local server through DNS rebinding, and requests browsers send from other sites
+ * must come from an allowed origin. Clients that send no Origin, such as MCP clients, pass.
+ */
+export function isAllowedRequest(req: IncomingMessage, allowed?: { hosts?: string[] | null; origins?: string[] }): boolean;
+
+// Thrown by readJsonBody when a request body is larger than the limit
+export class BodyTooLargeError extends Error {}
+
+// Read a JSON body, giving up as soon as it grows past maxBytes (4 MB unless given)
+export function readJsonBody(req: IncomingMessage, maxBytes?: number): Promise<unknown>;
+
 /**
  * FluentMCP class provides a chainable interface for creating MCP servers
  */
@@ -12,7 +45,15 @@ export class FluentMCP {
     timestampEntries: boolean;
     [key: string]: any;
   };
+  private serverInfo: { name: string; version: string; [key: string]: any };
+  private registrations: Array<(server: McpServer) => void>;
+  private servers: Set<McpServer>;
+  private subscriptions: Map<McpServer, Set<string>>;
+  private subscribable?: boolean;
   private transportType?: string;
+  private httpOptions?: HttpOptions;
+  private httpServer?: Server;
+  private sessions?: Map<string, Transport>;
   
   // Zod schema validation accessible directly on the instance
   z: typeof z;
@@ -28,6 +69,26 @@ export class FluentMCP {
    */
   tool(name: string, schema: any, handler: Function): this;
 
+  /**
+   * Add a prompt template to the server; argument values arrive as strings
+   */
+  prompt<Args extends Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>>(
+    name: string,
+    description: string,
+    argsSchema: Args,
+    handler: (args: z.objectOutputType<Args, z.ZodTypeAny>) => GetPromptResult | Promise<GetPromptResult>
+  ): this;
+
+  /**
+   * Apply a registration to the server now and to every session server created later
+   */
+  register(apply: (server: McpServer) => void): this;
+
+  /**
+   * Create a server with everything registered so far, for a client connecting over HTTP
+   */
+  createSessionServer(): McpServer;
+
   /**
    * Initialize a resource store
    */
@@ -48,6 +109,37 @@ export class FluentMCP {
    */
   deleteResource(name: string, id: string): this;
 
+  /**
+   * Publish an MCP resource that clients can read and subscribe to. URIs with {variables}
+   * become resource templates: read gets the variables too, and `list` in the metadata
+   * can enumerate the resources the template matches.
+   */
+  mcpResource(
+    name: string,
+    uri: string,
+    metadata: {
+      description?: string;
+      mimeType?: string;
+      list?: ListResourcesCallback;
+    },
+    read: (uri: URL, variables: Record<string, string | string[]>) => ReadResourceResult | Promise<ReadResourceResult>
+  ): this;
+
+  /**
+   * Accept resource subscriptions, so clients can be told when a resource they read changes
+   */
+  enableSubscriptions(): void;
+
+  /**
+   * Tell subscribed clients that a resource has changed
+   */
+  notifyResourceUpdated(uri: string): this;
+
+  /**
+   * Tell clients that resources have been added or removed
+   */
+  notifyResourceListChanged(): this;
+
   /**
    * Create CRUD operations for a resource
    */
@@ -68,10 +160,43 @@ export class FluentMCP {
    */
   stdio(): this;
 
+  /**
+   * Enable HTTP transport, so several clients can share the server. Clients use streamable
+   * HTTP at `path`; older clients can use SSE at /sse, posting their messages to /messages.
+   * Requests must name the listening host, or one of `allowedHosts`, in their Host header, and
+   * browsers may only call from those hosts or from `allowedOrigins`.
+   */
+  http(options?: HttpOptions): this;
+
   /**
    * Start the server with the configured transport
    */
   start(): Promise<this>;
+
+  /**
+   * Start the server on a transport created elsewhere, such as an in-memory transport in tests
+   */
+  connect(transport: Transport): Promise<this>;
+
+  /**
+   * Connect a server to a transport, and forget both once the transport closes
+   */
+  private connectServer(server: McpServer, transport: Transport): Promise<void>;
+
+  /**
+   * Listen for HTTP clients; every session gets its own server with everything registered
+   */
+  listen(): Promise<this>;
+
+  /**
+   * The address the HTTP server is listening on, once it has started
+   */
+  address(): { host: string; port: number } | null;
+
+  /**
+   * Disconnect every client and stop listening
+   */
+  close(): Promise<this>;
 }
 
 /**
@@ -1,10 +1,57 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
 // Re-export zod for convenience
 export { z };
 
+// The largest JSON-RPC request body accepted over HTTP, as in the SDK's own transports
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * The Host header values a server listening on host:port answers to. A server listening on
+ * every interface can be reached under any name, so null is returned and the Host isn't restricted.
+ */
+export function allowedHostsFor(host, port) {
+  if (['0.0.0.0', '::', ''].includes(host)) {
+    return null;
+  }
+
+  const names = ['127.0.0.1', 'localhost', '::1'].includes(host)
+    ? ['localhost', '127.0.0.1', '[::1]']
+    : [host.includes(':') ? `[${host}]` : host];
+  return names.map((name) => `${name}:${port}`.toLowerCase());
+}
+
+/**
+ * Whether an HTTP request may be served. Its Host must be one the server answers to, so a page
+ * can't reach a local server through DNS rebinding, and requests browsers send from other sites
+ * must come from an allowed origin. Clients that send no Origin, such as MCP clients, pass.
+ */
+export function isAllowedRequest(req, { hosts = null, origins = [] } = {}) {
+  const host = (req.headers.host || '').toLowerCase();
+  if (hosts && !hosts.includes(host)) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (!origin || origins.includes(origin)) {
+    return true;
+  }
+
+  try {
+    const originHost = new URL(origin).host.toLowerCase();
+    return hosts ? hosts.includes(originHost) : originHost === host;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * A unified fluent interface for creating MCP servers
  * Provides both simple and advanced usage patterns
@@ -14,11 +61,17 @@ export class FluentMCP {
    * Create a new FluentMCP instance
    */
   constructor(name, version = "1.0.0", options = {}) {
-    this.server = new McpServer({
+    this.serverInfo = {
       name,
       version,
       ...options
-    });
+    };
+    this.server = new McpServer(this.serverInfo);
+    // Everything added to the server, replayed onto the server of each HTTP session
+    this.registrations = [];
+    // Servers with a client connected, and the resources each client subscribed to
+    this.servers = new Set();
+    this.subscriptions = new Map();
     this.resources = {};
     this.options = {
       autoGenerateIds: true,
@@ -35,10 +88,36 @@ export class FluentMCP {
    * Add a tool to the server
    */
   tool(name, schema, handler) {
-    this.server.tool(name, schema, handler);
+    this.register((server) => server.tool(name, schema, handler));
+    return this;
+  }
+
+  /**
+   * Add a prompt template to the server; argument values arrive as strings
+   */
+  prompt(name, description, argsSchema, handler) {
+    this.register((server) => server.prompt(name, description, argsSchema, handler));
+    return this;
+  }
+
+  /**
+   * Apply a registration to the server now and to every session server created later
+   */
+  register(apply) {
+    this.registrations.push(apply);
+    apply(this.server);
     return this;
   }
 
+  /**
+   * Create a server with everything registered so far, for a client connecting over HTTP
+   */
+  createSessionServer() {
+    const server = new McpServer(this.serverInfo);
+    this.registrations.forEach((apply) => apply(server));
+    return server;
+  }
+
   /**
    * Initialize a resource store
    */
@@ -76,6 +155,79 @@ export class FluentMCP {
     return this;
   }
 
+  /**
+   * Publish an MCP resource that clients can read and subscribe to. URIs with {variables}
+   * become resource templates: read gets the variables too, and `list` in the metadata
+   * can enumerate the resources the template matches.
+   */
+  mcpResource(name, uri, metadata, read) {
+    const { list, ...details } = metadata;
+
+    if (uri.includes("{")) {
+      this.register((server) => server.resource(name, new ResourceTemplate(uri, { list }), details, (resourceUri, variables) => read(resourceUri, variables)));
+    } else {
+      this.register((server) => server.resource(name, uri, details, (resourceUri) => read(resourceUri, {})));
+    }
+
+    this.enableSubscriptions();
+    return this;
+  }
+
+  /**
+   * Accept resource subscriptions, so clients can be told when a resource they read changes
+   */
+  enableSubscriptions() {
+    if (this.subscribable) {
+      return;
+    }
+
+    this.subscribable = true;
+    this.register((server) => {
+      // Each connected client has its own server, so subscriptions are kept per server
+      const subscribed = () => {
+        if (!this.subscriptions.has(server)) {
+          this.subscriptions.set(server, new Set());
+        }
+        return this.subscriptions.get(server);
+      };
+
+      server.server.registerCapabilities({ resources: { subscribe: true } });
+      server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscribed().add(request.params.uri);
+        return {};
+      });
+      server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscribed().delete(request.params.uri);
+        return {};
+      });
+    });
+  }
+
+  /**
+   * Tell subscribed clients that a resource has changed
+   */
+  notifyResourceUpdated(uri) {
+    for (const server of this.servers) {
+      if (server.isConnected() && this.subscriptions.get(server)?.has(uri)) {
+        // Notifications are best effort; a client that went away doesn't need them
+        server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Tell clients that resources have been added or removed
+   */
+  notifyResourceListChanged() {
+    for (const server of this.servers) {
+      if (server.isConnected()) {
+        server.server.sendResourceListChanged().catch(() => {});
+      }
+    }
+    return this;
+  }
+
   /**
    * Create CRUD operations for a resource
    */
@@ -384,22 +536,198 @@ export class FluentMCP {
     return this;
   }
 
+  /**
+   * Enable HTTP transport, so several clients can share the server. Clients use streamable
+   * HTTP at `path`; older clients can use SSE at /sse, posting their messages to /messages.
+   * Requests must name the listening host, or one of `allowedHosts`, in their Host header, and
+   * browsers may only call from those hosts or from `allowedOrigins`.
+   */
+  http({ port = 3000, host = '127.0.0.1', path = '/mcp', allowedHosts, allowedOrigins = [] } = {}) {
+    this.transportType = 'http';
+    this.httpOptions = { port, host, path, allowedHosts, allowedOrigins };
+    return this;
+  }
+
   /**
    * Start the server with the configured transport
    */
   async start() {
-    let transport;
-    
+    if (this.transportType === 'http') {
+      await this.listen();
+      return this;
+    }
+
     // Use the configured transport or default to stdio
-    if (this.transportType === 'stdio' || !this.transportType) {
-      transport = new StdioServerTransport();
+    await this.connect(new StdioServerTransport());
+    return this;
+  }
+
+  /**
+   * Start the server on a transport created elsewhere, such as an in-memory transport in tests
+   */
+  async connect(transport) {
+    await this.connectServer(this.server, transport);
+    return this;
+  }
+
+  /**
+   * Connect a server to a transport, and forget both once the transport closes
+   */
+  async connectServer(server, transport) {
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      this.servers.delete(server);
+      this.subscriptions.delete(server);
+      onclose?.();
+    };
+
+    await server.connect(transport);
+    this.servers.add(server);
+  }
+
+  /**
+   * Listen for HTTP clients; every session gets its own server with everything registered
+   */
+  async listen() {
+    const { port, host, path, allowedHosts, allowedOrigins } = this.httpOptions;
+    // Transports of open sessions by session ID, for both streamable HTTP and SSE
+    const sessions = new Map();
+    // Worked out once listening, when the port is known
+    let allowed;
+
+    this.httpServer = createServer(async (req, res) => {
+      try {
+        if (!isAllowedRequest(req, allowed)) {
+          return sendJsonError(res, 403, 'Forbidden host or origin');
+        }
+
+        const url = new URL(req.url, 'http://localhost');
+
+        if (url.pathname === path) {
+          const sessionId = req.headers['mcp-session-id'];
+          let body;
+          if (req.method === 'POST') {
+            try {
+              body = await readJsonBody(req);
+            } catch (error) {
+              if (error instanceof BodyTooLargeError) {
+                // Close the connection rather than read the rest of the body
+                res.setHeader('Connection', 'close');
+                return sendJsonError(res, 413, error.message);
+              }
+              return sendJsonError(res, 400, 'Parse error', -32700);
+            }
+          }
+          let transport = sessionId ? sessions.get(sessionId) : undefined;
+
+          if (!transport && !sessionId && isInitializeRequest(body)) {
+            transport = new StreamableHTTPServerTransport({
+              sessionIdGenerator: () => randomUUID(),
+              onsessioninitialized: (id) => sessions.set(id, transport)
+            });
+            transport.onclose = () => sessions.delete(transport.sessionId);
+            await this.connectServer(this.createSessionServer(), transport);
+          }
+
+          if (!(transport instanceof StreamableHTTPServerTransport)) {
+            return sendJsonError(res, 400, sessionId ? 'Unknown session ID' : 'Expected an initialize request without a session ID');
+          }
+
+          await transport.handleRequest(req, res, body);
+        } else if (url.pathname === '/sse' && req.method === 'GET') {
+          const transport = new SSEServerTransport('/messages', res);
+          sessions.set(transport.sessionId, transport);
+          transport.onclose = () => sessions.delete(transport.sessionId);
+          await this.connectServer(this.createSessionServer(), transport);
+        } else if (url.pathname === '/messages' && req.method === 'POST') {
+          const transport = sessions.get(url.searchParams.get('sessionId'));
+          if (!(transport instanceof SSEServerTransport)) {
+            return sendJsonError(res, 400, 'Unknown session ID');
+          }
+
+          await transport.handlePostMessage(req, res);
+        } else {
+          sendJsonError(res, 404, 'Not found');
+        }
+      } catch (error) {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          sendJsonError(res, 500, 'Internal server error');
+        }
+      }
+    });
+    this.sessions = sessions;
+
+    await new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    allowed = {
+      hosts: allowedHosts ? allowedHosts.map((name) => name.toLowerCase()) : allowedHostsFor(host, this.address().port),
+      origins: allowedOrigins
+    };
+    return this;
+  }
+
+  /**
+   * The address the HTTP server is listening on, once it has started
+   */
+  address() {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? { host: address.address, port: address.port } : null;
+  }
+
+  /**
+   * Disconnect every client and stop listening
+   */
+  async close() {
+    for (const transport of this.sessions?.values() || []) {
+      await transport.close();
+    }
+    for (const server of [...this.servers]) {
+      await server.close();
+    }
+    if (this.httpServer) {
+      await new Promise((resolve) => this.httpServer.close(() => resolve()));
+      this.httpServer = undefined;
     }
-    
-    await this.server.connect(transport);
     return this;
   }
 }
 
+export class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+// Read a JSON body, giving up as soon as it grows past the limit
+export async function readJsonBody(req, maxBytes = MAX_BODY_BYTES) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function sendJsonError(res, status, message, code = status === 500 ? -32603 : -32000) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  }));
+}
+
 /**
  * Create a new FluentMCP instance with simple defaults
  */
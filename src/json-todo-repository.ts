@@ -0,0 +1,393 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { existsSync, mkdirSync, writeFileSync, watch, FSWatcher } from 'fs';
+import { withFileLock, writeFileAtomic } from './file-lock.js';
+import { QUERY_FIELDS } from './todo-repository.js';
+import type { TodoRepository, TodoQuery, TodoBatch, TodoBatchResult } from './todo-repository.js';
+import type { Todo } from './todo-store.js';
+
+export interface JsonDirectoryOptions {
+  // Watch the directory so the index can be reused between calls; defaults to true
+  watch?: boolean;
+}
+
+// Lookup tables over every todo in the directory, keyed by ID and by the query fields
+class TodoIndex {
+  private byId = new Map<string, { todo: Todo; filePath: string }>();
+  private byField = new Map<string, Map<string, Set<string>>>(QUERY_FIELDS.map(field => [field, new Map()]));
+
+  constructor(files: Map<string, Todo[]>) {
+    for (const [filePath, todos] of files) {
+      for (const todo of todos) {
+        this.byId.set(todo.id, { todo, filePath });
+
+        for (const field of QUERY_FIELDS) {
+          const value = todo[field];
+          if (value) {
+            const ids = this.byField.get(field)?.get(value) || new Set<string>();
+            ids.add(todo.id);
+            this.byField.get(field)?.set(value, ids);
+          }
+        }
+      }
+    }
+  }
+
+  get(id: string): Todo | undefined {
+    return this.byId.get(id)?.todo;
+  }
+
+  fileOf(id: string): string | undefined {
+    return this.byId.get(id)?.filePath;
+  }
+
+  all(): Todo[] {
+    return [...this.byId.values()].map(entry => entry.todo);
+  }
+
+  // Intersect the ID sets of every queried field
+  find(query: TodoQuery): Todo[] {
+    let ids: Set<string> | undefined;
+
+    for (const field of QUERY_FIELDS) {
+      const value = query[field];
+      if (value) {
+        const matches = this.byField.get(field)?.get(value) || new Set<string>();
+        ids = ids ? new Set([...ids].filter(id => matches.has(id))) : matches;
+      }
+    }
+
+    return ids ? [...ids].map(id => this.byId.get(id)?.todo as Todo) : this.all();
+  }
+}
+
+// Stores todos as one JSON file per project in a directory, with default.json for unassigned tasks.
+// Parsed files and an index over them are kept in memory while fs.watch reports changes to the
+// directory; where watching isn't available every call rescans the files instead.
+export class JsonDirectoryTodoRepository implements TodoRepository {
+  private dir: string;
+  private defaultFile: string;
+  private watcher: FSWatcher | null = null;
+  private fileCache = new Map<string, Todo[]>();
+  private index: TodoIndex | null = null;
+
+  constructor(dir: string, options: JsonDirectoryOptions = {}) {
+    this.dir = dir;
+    this.defaultFile = path.join(dir, 'default.json');
+    this.ensureDirectoriesExist();
+
+    if (options.watch !== false) {
+      this.startWatching();
+    }
+  }
+
+  // Whether changes to the directory are being watched
+  get watching(): boolean {
+    return this.watcher !== null;
+  }
+
+  // Watch the directory so edits from other processes invalidate the cache
+  startWatching(): void {
+    try {
+      this.watcher = watch(this.dir, (_eventType, filename) => {
+        if (!filename) {
+          this.invalidate();
+        } else if (filename.endsWith('.json')) {
+          this.invalidate(path.join(this.dir, filename.toString()));
+        }
+      });
+      this.watcher.on('error', () => this.stopWatching());
+      // Don't keep the process alive just to watch for changes
+      this.watcher.unref();
+    } catch (error) {
+      console.error(`Watching ${this.dir} is unavailable, rescanning todo files on every call:`, (error as Error).message);
+      this.watcher = null;
+    }
+  }
+
+  // Stop watching and fall back to rescanning on every call
+  stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.invalidate();
+  }
+
+  async close(): Promise<void> {
+    this.stopWatching();
+  }
+
+  // Forget a cached file, or everything, so it is read again on next use
+  invalidate(filePath?: string): void {
+    if (filePath) {
+      this.fileCache.delete(filePath);
+    } else {
+      this.fileCache.clear();
+    }
+    this.index = null;
+  }
+
+  // Get the index, reading only the files that changed since it was last built
+  async loadIndex(): Promise<TodoIndex> {
+    if (this.index && this.watching) {
+      return this.index;
+    }
+
+    const files = new Map<string, Todo[]>();
+    for (const filePath of await this.getTodoFiles()) {
+      const cached = this.watching ? this.fileCache.get(filePath) : undefined;
+      files.set(filePath, cached || await this.readTodosFile(filePath));
+    }
+
+    const index = new TodoIndex(files);
+    if (this.watching) {
+      this.fileCache = files;
+      this.index = index;
+    }
+
+    return index;
+  }
+
+  // Ensure required directories exist
+  ensureDirectoriesExist(): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    if (!existsSync(this.defaultFile)) {
+      writeFileSync(this.defaultFile, '[]', 'utf8');
+    }
+  }
+
+  // Get the file that holds a project's todos
+  fileForProject(project?: string): string {
+    if (!project) {
+      return this.defaultFile;
+    }
+
+    const sanitizedProject = project.replace(/[^a-zA-Z0-9]/g, '-');
+    return path.join(this.dir, `${sanitizedProject}.json`);
+  }
+
+  // Get all todo files
+  async getTodoFiles(): Promise<string[]> {
+    const files = await fs.readdir(this.dir);
+    return files.filter(file => file.endsWith('.json')).map(file => path.join(this.dir, file));
+  }
+
+  // Read todos from a file. Unparseable files are re-checked under the file lock
+  // and then quarantined, so a corrupt file never gets overwritten with an empty list.
+  async readTodosFile(filePath: string, locked = false): Promise<Todo[]> {
+    if (!existsSync(filePath)) {
+      return [];
+    }
+
+    const data = await fs.readFile(filePath, 'utf8');
+
+    try {
+      const todos = JSON.parse(data);
+      if (!Array.isArray(todos)) {
+        throw new Error('Expected an array of todos');
+      }
+      return todos;
+    } catch (error) {
+      if (!locked) {
+        return withFileLock(filePath, () => this.readTodosFile(filePath, true));
+      }
+
+      await this.quarantineFile(filePath, error as Error);
+      return [];
+    }
+  }
+
+  // Move a corrupt todos file aside so it can be recovered by hand
+  async quarantineFile(filePath: string, error: Error): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const quarantinePath = `${filePath}.corrupt-${timestamp}`;
+
+    await fs.rename(filePath, quarantinePath);
+    console.error(`Quarantined corrupt todos file ${filePath} as ${quarantinePath}:`, error.message);
+
+    return quarantinePath;
+  }
+
+  // Write todos to a file
+  async writeTodosFile(filePath: string, todos: Todo[]): Promise<void> {
+    try {
+      await writeFileAtomic(filePath, JSON.stringify(todos, null, 2));
+    } catch (error) {
+      console.error(`Error writing todos file ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  // Read, change and write several todos files while holding all of their locks. Locks are
+  // taken in path order so two writers can't deadlock, unchanged files aren't rewritten and
+  // project files left empty are removed. Returning null from the mutation writes nothing.
+  async modifyTodosFiles<T>(filePaths: string[], mutate: (files: Map<string, Todo[]>) => T | null): Promise<T | null> {
+    const sortedPaths = [...new Set(filePaths)].sort();
+
+    const modify = async (): Promise<T | null> => {
+      const files = new Map<string, Todo[]>();
+      const original = new Map<string, Todo[]>();
+
+      for (const filePath of sortedPaths) {
+        const todos = await this.readTodosFile(filePath, true);
+        files.set(filePath, todos);
+        original.set(filePath, structuredClone(todos));
+      }
+
+      const result = mutate(files);
+      if (result === null) {
+        return null;
+      }
+
+      // Write files that gained todos first, so a crash part way through a move
+      // leaves a duplicate behind rather than losing the todo
+      const changed = sortedPaths
+        .filter(filePath => JSON.stringify(files.get(filePath)) !== JSON.stringify(original.get(filePath)))
+        .sort((a, b) => {
+          const growth = (filePath: string) => (files.get(filePath)?.length || 0) - (original.get(filePath)?.length || 0);
+          return growth(b) - growth(a);
+        });
+
+      for (const filePath of changed) {
+        const todos = files.get(filePath) as Todo[];
+
+        if (todos.length === 0 && filePath !== this.defaultFile) {
+          await fs.rm(filePath, { force: true });
+          this.fileCache.delete(filePath);
+        } else {
+          await this.writeTodosFile(filePath, todos);
+
+          // Keep our own write without waiting for the watcher to report it
+          if (this.watching) {
+            this.fileCache.set(filePath, todos);
+          }
+        }
+        this.index = null;
+      }
+
+      return result;
+    };
+
+    const locked = sortedPaths.reduceRight((inner, filePath) => () => withFileLock(filePath, inner), modify);
+    return locked();
+  }
+
+  // Callers get copies so they can't change the cached todos
+  async getAll(): Promise<Todo[]> {
+    return structuredClone((await this.loadIndex()).all());
+  }
+
+  async getById(id: string): Promise<Todo | null> {
+    const todo = (await this.loadIndex()).get(id);
+    return todo ? structuredClone(todo) : null;
+  }
+
+  async find(query: TodoQuery): Promise<Todo[]> {
+    return structuredClone((await this.loadIndex()).find(query));
+  }
+
+  async insert(todo: Todo): Promise<void> {
+    await this.applyBatch({ insert: [todo] });
+  }
+
+  async update(id: string, mutate: (todo: Todo) => Todo): Promise<Todo | null> {
+    return (await this.applyBatch({ update: new Map([[id, mutate]]) })).updated[0] || null;
+  }
+
+  async remove(id: string): Promise<Todo | null> {
+    return (await this.applyBatch({ remove: [id] })).removed[0] || null;
+  }
+
+  // Change every affected file under its lock, writing each of them once. Mutations are applied to
+  // the copies read under the locks so concurrent writers don't clobber each other, and todos whose
+  // project changes are moved to that project's file in the same change.
+  async applyBatch(batch: TodoBatch): Promise<TodoBatchResult> {
+    const removals = new Set(batch.remove);
+    const updates = batch.update || new Map<string, (todo: Todo) => Todo>();
+    const inserts = batch.insert || [];
+    const targetFiles = new Set(inserts.map(todo => this.fileForProject(todo.project)));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const index = await this.loadIndex();
+      for (const todo of inserts) {
+        if (index.get(todo.id) && !removals.has(todo.id)) {
+          throw new Error(`Task already exists: ${todo.id}`);
+        }
+      }
+
+      const sourceFiles = [...new Set([...removals, ...updates.keys()])]
+        .map(id => index.fileOf(id))
+        .filter((filePath): filePath is string => !!filePath);
+      const lockedFiles = new Set([...sourceFiles, ...targetFiles]);
+      if (lockedFiles.size === 0) {
+        return { removed: [], updated: [], inserted: [] };
+      }
+
+      const result = await this.modifyTodosFiles([...lockedFiles], files => {
+        const batchResult: TodoBatchResult = { removed: [], updated: [], inserted: [] };
+        const moves: Array<[string, Todo]> = [];
+
+        for (const todos of files.values()) {
+          for (const todo of todos) {
+            batch.check?.get(todo.id)?.(structuredClone(todo));
+          }
+        }
+
+        for (const [filePath, todos] of files) {
+          const kept: Todo[] = [];
+
+          for (const todo of todos) {
+            const mutate = updates.get(todo.id);
+
+            if (removals.has(todo.id)) {
+              batchResult.removed.push(todo);
+            } else if (mutate) {
+              const updated = mutate(structuredClone(todo));
+              const target = this.fileForProject(updated.project);
+              targetFiles.add(target);
+              batchResult.updated.push(updated);
+
+              if (target === filePath) {
+                kept.push(updated);
+              } else {
+                moves.push([target, updated]);
+              }
+            } else {
+              kept.push(todo);
+            }
+          }
+
+          files.set(filePath, kept);
+        }
+
+        // A todo moved since the index was built, or is moving to a file whose lock
+        // we don't hold yet: write nothing and try again
+        const found = batchResult.removed.length + batchResult.updated.length;
+        if (found < sourceFiles.length || [...targetFiles].some(filePath => !lockedFiles.has(filePath))) {
+          return null;
+        }
+
+        for (const [target, todo] of moves) {
+          files.get(target)?.push(todo);
+        }
+
+        for (const todo of inserts) {
+          files.get(this.fileForProject(todo.project))?.push(structuredClone(todo));
+          batchResult.inserted.push(todo);
+        }
+
+        return batchResult;
+      });
+
+      if (result) {
+        return structuredClone(result);
+      }
+
+      this.invalidate();
+    }
+
+    throw new Error('Tasks kept changing while they were being updated; try again');
+  }
+}
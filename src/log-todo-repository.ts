@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { withFileLock, writeFileAtomic } from './file-lock.js';
+import { matchesQuery } from './todo-repository.js';
+import type { TodoRepository, TodoQuery, TodoBatch, TodoBatchResult } from './todo-repository.js';
+import type { Todo } from './todo-store.js';
+
+// Rewrite the log once it holds this many superseded entries
+const COMPACT_THRESHOLD = 500;
+
+type LogEntry =
+  | { op: 'put'; at: string; todo: Todo }
+  | { op: 'delete'; at: string; id: string };
+
+interface LogState {
+  todos: Map<string, Todo>;
+  entryCount: number;
+  // False when the last write was torn and the file doesn't end in a newline
+  endsCleanly: boolean;
+}
+
+// Stores todos in a single append-only JSON Lines file. Every change appends an entry,
+// and the current state is rebuilt by replaying the log.
+export class AppendLogTodoRepository implements TodoRepository {
+  private logPath: string;
+
+  constructor(logPath: string) {
+    this.logPath = logPath;
+
+    const dir = path.dirname(logPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  // Replay the log into the current set of todos
+  async load(): Promise<LogState> {
+    if (!existsSync(this.logPath)) {
+      return { todos: new Map(), entryCount: 0, endsCleanly: true };
+    }
+
+    const data = await fs.readFile(this.logPath, 'utf8');
+    const lines = data.split('\n');
+    const todos = new Map<string, Todo>();
+    let entryCount = 0;
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        // A torn final line is what a crash mid-append leaves behind; anything else is damage
+        if (index !== lines.length - 1) {
+          console.error(`Skipping corrupt entry on line ${index + 1} of ${this.logPath}`);
+        }
+        return;
+      }
+
+      entryCount++;
+      if (entry.op === 'put') {
+        todos.set(entry.todo.id, entry.todo);
+      } else if (entry.op === 'delete') {
+        todos.delete(entry.id);
+      }
+    });
+
+    return { todos, entryCount, endsCleanly: data.length === 0 || data.endsWith('\n') };
+  }
+
+  // Append entries to the log, compacting it when it has grown mostly stale
+  async append(state: LogState, entries: LogEntry[]): Promise<void> {
+    const prefix = state.endsCleanly ? '' : '\n';
+    await fs.appendFile(this.logPath, prefix + entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+
+    const staleEntries = state.entryCount + entries.length - state.todos.size;
+    if (staleEntries > COMPACT_THRESHOLD && staleEntries > state.todos.size) {
+      await this.rewrite(state.todos);
+    }
+  }
+
+  // Replace the log with a single entry per live todo
+  async rewrite(todos: Map<string, Todo>): Promise<void> {
+    const at = new Date().toISOString();
+    const entries = [...todos.values()].map(todo => JSON.stringify({ op: 'put', at, todo }) + '\n');
+    await writeFileAtomic(this.logPath, entries.join(''));
+  }
+
+  // Compact the log by dropping superseded entries
+  async compact(): Promise<void> {
+    await withFileLock(this.logPath, async () => {
+      const state = await this.load();
+      await this.rewrite(state.todos);
+    });
+  }
+
+  async getAll(): Promise<Todo[]> {
+    return [...(await this.load()).todos.values()];
+  }
+
+  async getById(id: string): Promise<Todo | null> {
+    return (await this.load()).todos.get(id) || null;
+  }
+
+  async find(query: TodoQuery): Promise<Todo[]> {
+    return (await this.getAll()).filter(todo => matchesQuery(todo, query));
+  }
+
+  async insert(todo: Todo): Promise<void> {
+    await withFileLock(this.logPath, async () => {
+      const state = await this.load();
+      if (state.todos.has(todo.id)) {
+        throw new Error(`Task already exists: ${todo.id}`);
+      }
+
+      state.todos.set(todo.id, todo);
+      await this.append(state, [{ op: 'put', at: new Date().toISOString(), todo }]);
+    });
+  }
+
+  async update(id: string, mutate: (todo: Todo) => Todo): Promise<Todo | null> {
+    return withFileLock(this.logPath, async () => {
+      const state = await this.load();
+      const existing = state.todos.get(id);
+      if (!existing) {
+        return null;
+      }
+
+      const updated = mutate(existing);
+      state.todos.set(id, updated);
+      await this.append(state, [{ op: 'put', at: new Date().toISOString(), todo: updated }]);
+
+      return updated;
+    });
+  }
+
+  async applyBatch(batch: TodoBatch): Promise<TodoBatchResult> {
+    return withFileLock(this.logPath, async () => {
+      const state = await this.load();
+      const removals = new Set(batch.remove);
+      for (const todo of batch.insert || []) {
+        if (state.todos.has(todo.id) && !removals.has(todo.id)) {
+          throw new Error(`Task already exists: ${todo.id}`);
+        }
+      }
+
+      for (const [id, check] of batch.check || []) {
+        const existing = state.todos.get(id);
+        if (existing) {
+          check(structuredClone(existing));
+        }
+      }
+
+      const at = new Date().toISOString();
+      const result: TodoBatchResult = { removed: [], updated: [], inserted: [] };
+      const entries: LogEntry[] = [];
+
+      for (const id of removals) {
+        const existing = state.todos.get(id);
+        if (existing) {
+          state.todos.delete(id);
+          result.removed.push(existing);
+          entries.push({ op: 'delete', at, id });
+        }
+      }
+
+      for (const [id, mutate] of batch.update || []) {
+        const existing = state.todos.get(id);
+        if (existing) {
+          const updated = mutate(existing);
+          state.todos.set(id, updated);
+          result.updated.push(updated);
+          entries.push({ op: 'put', at, todo: updated });
+        }
+      }
+
+      for (const todo of batch.insert || []) {
+        state.todos.set(todo.id, todo);
+        result.inserted.push(todo);
+        entries.push({ op: 'put', at, todo });
+      }
+
+      // Write the whole batch with a single append
+      if (entries.length > 0) {
+        await this.append(state, entries);
+      }
+
+      return result;
+    });
+  }
+
+  async remove(id: string): Promise<Todo | null> {
+    return withFileLock(this.logPath, async () => {
+      const state = await this.load();
+      const existing = state.todos.get(id);
+      if (!existing) {
+        return null;
+      }
+
+      state.todos.delete(id);
+      await this.append(state, [{ op: 'delete', at: new Date().toISOString(), id }]);
+
+      return existing;
+    });
+  }
+}
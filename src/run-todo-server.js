@@ -1,4 +0,0 @@
-// Simple script to run the todo server
-import './todo-server.js';
-
-console.log('Todo MCP server started. Press Ctrl+C to exit.');
@@ -1,4 +1,5 @@
 // Simple script to run the todo server
 import './todo-server.js';
 
-console.log('Todo MCP server started. Press Ctrl+C to exit.');
+// stdout carries the MCP protocol over stdio, so status goes to stderr
+console.error('Todo MCP server started. Press Ctrl+C to exit.');
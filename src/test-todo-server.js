@@ -10,11 +10,11 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Path to the todo server script
-const serverPath = path.join(__dirname, 'todo-server.js');
+const serverPath = path.join(__dirname, 'run-todo-server.ts');
 
 // Start the todo server as a child process
 console.log('Starting todo server...');
-const serverProcess = spawn('node', [serverPath], {
+const serverProcess = spawn('node', ['--loader', 'ts-node/esm/transpile-only', serverPath], {
   stdio: ['pipe', 'pipe', 'pipe']
 });
 
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { loadTodoConfig, parseCliArgs, storageConfigFromEnv } from './todo-config.js';
+
+describe('Todo config', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claude-todo-config-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe('parseCliArgs', () => {
+    it('should read flags with separate and inline values', () => {
+      expect(parseCliArgs(['--data-dir', './todos', '--workspace=api', '--verbose'])).toEqual({
+        dataDir: './todos',
+        workspace: 'api'
+      });
+    });
+
+    it('should reject flags without a value', () => {
+      expect(() => parseCliArgs(['--storage'])).toThrow('Missing value for --storage');
+    });
+  });
+
+  describe('loadTodoConfig', () => {
+    it('should fall back to defaults outside a repo', () => {
+      const config = loadTodoConfig({ argv: [], env: {}, cwd: repoDir });
+
+      expect(config.storage).toEqual({ backend: 'json' });
+    });
+
+    it('should read .claude-todos.json from a parent directory', async () => {
+      await fs.writeFile(path.join(repoDir, '.claude-todos.json'), JSON.stringify({ dataDir: '.todos', storage: 'log' }));
+      const nested = path.join(repoDir, 'src', 'lib');
+      await fs.mkdir(nested, { recursive: true });
+
+      const config = loadTodoConfig({ argv: [], env: {}, cwd: nested });
+
+      expect(config).toEqual({
+        storage: { backend: 'log', dataDir: path.join(repoDir, '.todos') },
+        workspace: path.basename(repoDir),
+        configFile: path.join(repoDir, '.claude-todos.json'),
+        transport: { type: 'stdio' }
+      });
+    });
+
+    it('should prefer CLI arguments over the environment over the repo file', async () => {
+      await fs.writeFile(path.join(repoDir, '.claude-todos.json'), JSON.stringify({ dataDir: 'from-file', workspace: 'file' }));
+
+      const fromEnv = loadTodoConfig({ argv: [], env: { CLAUDE_TODOS_DIR: '/env/todos', CLAUDE_TODOS_WORKSPACE: 'env' }, cwd: repoDir });
+      expect(fromEnv.storage.dataDir).toBe('/env/todos');
+      expect(fromEnv.workspace).toBe('env');
+
+      const fromCli = loadTodoConfig({
+        argv: ['--data-dir', '/cli/todos', '--workspace', 'cli', '--storage', 'memory'],
+        env: { CLAUDE_TODOS_DIR: '/env/todos', CLAUDE_TODOS_STORAGE: 'log' },
+        cwd: repoDir
+      });
+      expect(fromCli.storage).toEqual({ backend: 'memory', dataDir: '/cli/todos' });
+      expect(fromCli.workspace).toBe('cli');
+    });
+
+    it('should read workflows from the repo file', async () => {
+      const workflows = { projects: { api: { statuses: { todo: 'pending', done: 'completed', dropped: 'cancelled' } } } };
+      await fs.writeFile(path.join(repoDir, '.claude-todos.json'), JSON.stringify({ workflows }));
+
+      expect(loadTodoConfig({ argv: [], env: {}, cwd: repoDir }).workflows).toEqual(workflows);
+    });
+
+    it('should name the workspace after the git repository', async () => {
+      await fs.mkdir(path.join(repoDir, '.git'));
+
+      expect(loadTodoConfig({ argv: [], env: {}, cwd: repoDir }).workspace).toBe(path.basename(repoDir));
+    });
+
+    it('should pick the transport from the command line', () => {
+      const load = (argv: string[]) => loadTodoConfig({ argv, env: {}, cwd: repoDir }).transport;
+
+      expect(load([])).toEqual({ type: 'stdio' });
+      expect(load(['--transport', 'http'])).toEqual({ type: 'http' });
+      expect(load(['--port=8080', '--host', '0.0.0.0'])).toEqual({ type: 'http', port: 8080, host: '0.0.0.0' });
+      expect(() => load(['--transport', 'ws'])).toThrow('Unknown --transport "ws"');
+      expect(() => load(['--port', 'http'])).toThrow('Invalid --port "http"');
+      expect(load(['--transport=http', '--allowed-hosts', 'devbox:3000, devbox.lan:3000'])).toEqual({ type: 'http', allowedHosts: ['devbox:3000', 'devbox.lan:3000'] });
+      expect(() => load(['--transport', 'stdio', '--port', '8080'])).toThrow('only apply to --transport http');
+    });
+
+    it('should only turn the change feed on when asked', () => {
+      const load = (argv: string[]) => loadTodoConfig({ argv, env: {}, cwd: repoDir }).events;
+
+      expect(load([])).toBeUndefined();
+      expect(load(['--events-port', '4000', '--events-origin', 'http://localhost:5173'])).toEqual({ port: 4000, corsOrigin: 'http://localhost:5173' });
+      expect(() => load(['--events-port', '-1'])).toThrow('Invalid --events-port "-1"');
+    });
+
+    it('should only serve the dashboard when asked', () => {
+      const load = (argv: string[]) => loadTodoConfig({ argv, env: {}, cwd: repoDir }).dashboard;
+
+      expect(load([])).toBeUndefined();
+      expect(load(['--dashboard-port=8080'])).toEqual({ port: 8080 });
+      expect(load(['--dashboard-host', '0.0.0.0'])).toEqual({ host: '0.0.0.0' });
+    });
+
+    it('should reject unknown storage backends', () => {
+      expect(() => loadTodoConfig({ argv: ['--storage', 'sqlite'], env: {}, cwd: repoDir })).toThrow('Unknown --storage backend');
+    });
+  });
+
+  describe('storageConfigFromEnv', () => {
+    it('should default to the json backend', () => {
+      expect(storageConfigFromEnv({})).toEqual({ backend: 'json' });
+    });
+
+    it('should read the backend from CLAUDE_TODOS_STORAGE', () => {
+      expect(storageConfigFromEnv({ CLAUDE_TODOS_STORAGE: 'memory' })).toEqual({ backend: 'memory' });
+      expect(storageConfigFromEnv({ CLAUDE_TODOS_STORAGE: 'log', CLAUDE_TODOS_DIR: '/data/todos' })).toEqual({ backend: 'log', dataDir: '/data/todos' });
+      expect(() => storageConfigFromEnv({ CLAUDE_TODOS_STORAGE: 'sqlite' })).toThrow('Unknown CLAUDE_TODOS_STORAGE backend');
+    });
+  });
+});
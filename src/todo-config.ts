@@ -0,0 +1,319 @@
+import path from 'path';
+import os from 'os';
+import { existsSync, readFileSync } from 'fs';
+import { TodoRepository, MemoryTodoRepository } from './todo-repository.js';
+import { JsonDirectoryTodoRepository } from './json-todo-repository.js';
+import { AppendLogTodoRepository } from './log-todo-repository.js';
+import { TodoHistory, MemoryTodoHistory, FileTodoHistory } from './todo-history.js';
+import type { WorkflowConfig } from './todo-workflow.js';
+
+// Constants
+const CLAUDE_DIR = path.join(os.homedir(), '.claude');
+const DEFAULT_TODOS_DIR = path.join(CLAUDE_DIR, 'todos');
+const TODOS_LOG_FILE = 'todos.log';
+const HISTORY_FILE = 'history.log';
+const TRASH_LOG_FILE = 'trash.log';
+
+export type TodoStorageBackend = 'json' | 'memory' | 'log';
+
+export interface TodoStorageConfig {
+  backend: TodoStorageBackend;
+  // Directory holding the project files or the log; defaults to ~/.claude/todos
+  dataDir?: string;
+}
+
+const STORAGE_BACKENDS: TodoStorageBackend[] = ['json', 'memory', 'log'];
+
+export type TodoTransportType = 'stdio' | 'http';
+
+export interface TodoTransportConfig {
+  type: TodoTransportType;
+  // Where the HTTP transport listens; defaults to 127.0.0.1:3000
+  port?: number;
+  host?: string;
+  // Host header values and browser origins the HTTP transport accepts besides its own address
+  allowedHosts?: string[];
+  allowedOrigins?: string[];
+}
+
+const TRANSPORT_TYPES: TodoTransportType[] = ['stdio', 'http'];
+
+// The socket.io server that emits task changes; defaults to 127.0.0.1:3001
+export interface TodoEventsConfig {
+  port?: number;
+  host?: string;
+  corsOrigin?: string;
+}
+
+// The local kanban board; defaults to 127.0.0.1:3002
+export interface TodoDashboardConfig {
+  port?: number;
+  host?: string;
+}
+
+// Per-repo configuration file, looked up from the working directory towards the root
+export const REPO_CONFIG_FILE = '.claude-todos.json';
+
+// Check a backend name from configuration, naming where it came from in the error
+export function parseStorageBackend(value: string, source: string): TodoStorageBackend {
+  if (!STORAGE_BACKENDS.includes(value as TodoStorageBackend)) {
+    throw new Error(`Unknown ${source} backend "${value}"; expected one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return value as TodoStorageBackend;
+}
+
+// Read the storage configuration from the environment
+export function storageConfigFromEnv(env: NodeJS.ProcessEnv = process.env): TodoStorageConfig {
+  return {
+    backend: parseStorageBackend(env.CLAUDE_TODOS_STORAGE || 'json', 'CLAUDE_TODOS_STORAGE'),
+    ...(env.CLAUDE_TODOS_DIR && { dataDir: path.resolve(env.CLAUDE_TODOS_DIR) })
+  };
+}
+
+// Create the repository for a storage configuration
+export function createTodoRepository(config: TodoStorageConfig): TodoRepository {
+  const dataDir = config.dataDir || DEFAULT_TODOS_DIR;
+
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryTodoRepository();
+    case 'log':
+      return new AppendLogTodoRepository(path.join(dataDir, TODOS_LOG_FILE));
+    case 'json':
+      return new JsonDirectoryTodoRepository(dataDir);
+  }
+}
+
+// Create the change history that goes with a storage configuration
+export function createTodoHistory(config: TodoStorageConfig): TodoHistory {
+  if (config.backend === 'memory') {
+    return new MemoryTodoHistory();
+  }
+
+  return new FileTodoHistory(path.join(config.dataDir || DEFAULT_TODOS_DIR, HISTORY_FILE));
+}
+
+// Create the trash that hard-deleted todos are kept in for a storage configuration
+export function createTodoTrash(config: TodoStorageConfig): TodoRepository {
+  if (config.backend === 'memory') {
+    return new MemoryTodoRepository();
+  }
+
+  return new AppendLogTodoRepository(path.join(config.dataDir || DEFAULT_TODOS_DIR, TRASH_LOG_FILE));
+}
+
+export interface RepoConfig {
+  dataDir?: string;
+  storage?: string;
+  workspace?: string;
+  // Only read from the command line
+  transport?: string;
+  port?: string;
+  host?: string;
+  allowedHosts?: string;
+  allowedOrigins?: string;
+  eventsPort?: string;
+  eventsHost?: string;
+  eventsOrigin?: string;
+  dashboardPort?: string;
+  dashboardHost?: string;
+  // Only read from .claude-todos.json
+  workflows?: WorkflowConfig;
+}
+
+export interface TodoServerConfig {
+  storage: TodoStorageConfig;
+  // Workspace new tasks belong to and listings are scoped to, usually the current repo
+  workspace?: string;
+  // The .claude-todos.json file that was used, if any
+  configFile?: string;
+  // Statuses and transitions per project, from .claude-todos.json
+  workflows?: WorkflowConfig;
+  // How clients connect: stdio for a single client, or HTTP for several
+  transport: TodoTransportConfig;
+  // Only set when the socket.io change feed was asked for
+  events?: TodoEventsConfig;
+  // Only set when the dashboard was asked for
+  dashboard?: TodoDashboardConfig;
+}
+
+export interface LoadTodoConfigOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+}
+
+// Parse --data-dir, --storage, --workspace and the transport, change feed and dashboard flags from command line arguments
+export function parseCliArgs(argv: string[]): RepoConfig {
+  const options: RepoConfig = {};
+  const flags: Record<string, Exclude<keyof RepoConfig, 'workflows'>> = {
+    '--data-dir': 'dataDir',
+    '--storage': 'storage',
+    '--workspace': 'workspace',
+    '--transport': 'transport',
+    '--port': 'port',
+    '--host': 'host',
+    '--allowed-hosts': 'allowedHosts',
+    '--allowed-origins': 'allowedOrigins',
+    '--events-port': 'eventsPort',
+    '--events-host': 'eventsHost',
+    '--events-origin': 'eventsOrigin',
+    '--dashboard-port': 'dashboardPort',
+    '--dashboard-host': 'dashboardHost'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s);
+    const key = flags[flag];
+
+    if (key) {
+      const value = inlineValue ?? argv[++i];
+      if (!value) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      options[key] = value;
+    }
+  }
+
+  return options;
+}
+
+// Check the transport flags; --port or --host on their own imply --transport http
+export function parseTransportConfig(cliConfig: RepoConfig): TodoTransportConfig {
+  const type = cliConfig.transport || (cliConfig.port || cliConfig.host ? 'http' : 'stdio');
+  if (!TRANSPORT_TYPES.includes(type as TodoTransportType)) {
+    throw new Error(`Unknown --transport "${type}"; expected one of ${TRANSPORT_TYPES.join(', ')}`);
+  }
+  if (type === 'stdio') {
+    if (cliConfig.port || cliConfig.host || cliConfig.allowedHosts || cliConfig.allowedOrigins) {
+      throw new Error('--port, --host, --allowed-hosts and --allowed-origins only apply to --transport http');
+    }
+    return { type };
+  }
+
+  const port = parsePort(cliConfig.port, '--port');
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+  return {
+    type: 'http',
+    ...(port !== undefined && { port }),
+    ...(cliConfig.host && { host: cliConfig.host }),
+    ...(cliConfig.allowedHosts && { allowedHosts: list(cliConfig.allowedHosts) }),
+    ...(cliConfig.allowedOrigins && { allowedOrigins: list(cliConfig.allowedOrigins) })
+  };
+}
+
+// Check the change feed flags; any of them turns the feed on
+export function parseEventsConfig(cliConfig: RepoConfig): TodoEventsConfig | undefined {
+  if (!cliConfig.eventsPort && !cliConfig.eventsHost && !cliConfig.eventsOrigin) {
+    return undefined;
+  }
+
+  const port = parsePort(cliConfig.eventsPort, '--events-port');
+  return {
+    ...(port !== undefined && { port }),
+    ...(cliConfig.eventsHost && { host: cliConfig.eventsHost }),
+    ...(cliConfig.eventsOrigin && { corsOrigin: cliConfig.eventsOrigin })
+  };
+}
+
+// Check the dashboard flags; either of them turns the dashboard on
+export function parseDashboardConfig(cliConfig: RepoConfig): TodoDashboardConfig | undefined {
+  if (!cliConfig.dashboardPort && !cliConfig.dashboardHost) {
+    return undefined;
+  }
+
+  const port = parsePort(cliConfig.dashboardPort, '--dashboard-port');
+  return {
+    ...(port !== undefined && { port }),
+    ...(cliConfig.dashboardHost && { host: cliConfig.dashboardHost })
+  };
+}
+
+function parsePort(value: string | undefined, flag: string): number | undefined {
+  const port = value === undefined ? undefined : Number(value);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid ${flag} "${value}"; expected a number from 0 to 65535`);
+  }
+  return port;
+}
+
+// Find the closest directory at or above cwd containing the given entry
+function findUp(cwd: string, entry: string): string | undefined {
+  let dir = path.resolve(cwd);
+
+  for (;;) {
+    if (existsSync(path.join(dir, entry))) {
+      return dir;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Read a .claude-todos.json file, resolving its data directory relative to the file
+export function readRepoConfig(filePath: string): RepoConfig {
+  let config: RepoConfig;
+  try {
+    config = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${filePath}: ${(error as Error).message}`);
+  }
+
+  return {
+    ...config,
+    ...(config.dataDir && { dataDir: path.resolve(path.dirname(filePath), config.dataDir) })
+  };
+}
+
+/**
+ * Work out where todos are stored and which workspace this server works in.
+ * Command line arguments win over environment variables, which win over .claude-todos.json.
+ * The transport, the change feed and the dashboard are only set on the command line; by
+ * default the server uses stdio and has neither a change feed nor a dashboard.
+ * Without an explicit workspace, the name of the directory holding .claude-todos.json
+ * or the git repository is used.
+ */
+export function loadTodoConfig(options: LoadTodoConfigOptions = {}): TodoServerConfig {
+  const { argv = process.argv.slice(2), env = process.env, cwd = process.cwd() } = options;
+
+  const configDir = findUp(cwd, REPO_CONFIG_FILE);
+  const configFile = configDir && path.join(configDir, REPO_CONFIG_FILE);
+  const repoConfig = configFile ? readRepoConfig(configFile) : {};
+  const cliConfig = parseCliArgs(argv);
+  const events = parseEventsConfig(cliConfig);
+  const dashboard = parseDashboardConfig(cliConfig);
+
+  const backend = cliConfig.storage
+    ? parseStorageBackend(cliConfig.storage, '--storage')
+    : env.CLAUDE_TODOS_STORAGE
+      ? parseStorageBackend(env.CLAUDE_TODOS_STORAGE, 'CLAUDE_TODOS_STORAGE')
+      : parseStorageBackend(repoConfig.storage || 'json', `${REPO_CONFIG_FILE} storage`);
+
+  const dataDir = (cliConfig.dataDir && path.resolve(cwd, cliConfig.dataDir))
+    || (env.CLAUDE_TODOS_DIR && path.resolve(cwd, env.CLAUDE_TODOS_DIR))
+    || repoConfig.dataDir;
+
+  const repoDir = configDir || findUp(cwd, '.git');
+  const workspace = cliConfig.workspace
+    || env.CLAUDE_TODOS_WORKSPACE
+    || repoConfig.workspace
+    || (repoDir && path.basename(repoDir));
+
+  return {
+    storage: {
+      backend,
+      ...(dataDir && { dataDir })
+    },
+    ...(workspace && { workspace }),
+    ...(configFile && { configFile }),
+    ...(repoConfig.workflows && { workflows: repoConfig.workflows }),
+    transport: parseTransportConfig(cliConfig),
+    ...(events && { events }),
+    ...(dashboard && { dashboard })
+  };
+}
@@ -0,0 +1,171 @@
+// The kanban board page served by the dashboard. It talks to the dashboard's JSON API and
+// builds the board with DOM calls, so task text is never parsed as HTML.
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Todos</title>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; background: #f4f5f7; color: #172b4d; }
+  header { display: flex; gap: 12px; align-items: center; padding: 12px 16px; background: #fff; border-bottom: 1px solid #dfe1e6; }
+  header h1 { font-size: 16px; margin: 0 12px 0 0; }
+  #error { color: #bf2600; margin-left: auto; }
+  #board { display: flex; gap: 12px; padding: 16px; overflow-x: auto; align-items: flex-start; }
+  .column { flex: 0 0 260px; background: #ebecf0; border-radius: 6px; padding: 8px; min-height: 120px; }
+  .column.over { background: #dfe6f5; }
+  .column h2 { font-size: 12px; text-transform: uppercase; margin: 4px 4px 8px; color: #5e6c84; }
+  .card { background: #fff; border-radius: 4px; padding: 8px; margin-bottom: 8px; box-shadow: 0 1px 1px rgba(9, 30, 66, .25); cursor: grab; }
+  .card .title { font-weight: 600; cursor: text; }
+  .card .meta { display: flex; gap: 6px; align-items: center; margin-top: 6px; font-size: 12px; color: #5e6c84; }
+  .card input, .card textarea { width: 100%; box-sizing: border-box; font: inherit; }
+  .priority-high { border-left: 3px solid #de350b; }
+  .priority-medium { border-left: 3px solid #ff991f; }
+  .priority-low { border-left: 3px solid #36b37e; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Todos</h1>
+  <label>Project <select id="project"><option value="">All</option></select></label>
+  <label>Conversation <select id="conversation"><option value="">All</option></select></label>
+  <label>Priority
+    <select id="priority">
+      <option value="">All</option><option>high</option><option>medium</option><option>low</option>
+    </select>
+  </label>
+  <span id="error"></span>
+</header>
+<main id="board"></main>
+<script>
+  const filters = ['project', 'conversation', 'priority'];
+  let busy = false;
+
+  function element(tag, props, children) {
+    const node = Object.assign(document.createElement(tag), props || {});
+    (children || []).forEach(child => node.append(child));
+    return node;
+  }
+
+  function showError(message) {
+    document.getElementById('error').textContent = message || '';
+  }
+
+  function setOptions(select, values) {
+    const selected = select.value;
+    select.replaceChildren(element('option', { value: '', textContent: 'All' }),
+      ...values.map(value => element('option', { value, textContent: value })));
+    select.value = values.includes(selected) ? selected : '';
+  }
+
+  async function update(task, changes) {
+    busy = true;
+    try {
+      const response = await fetch('/api/tasks/' + encodeURIComponent(task.id), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Object.assign({}, changes, { expectedVersion: task.version || 0 }))
+      });
+      const result = await response.json();
+      showError(result.success ? '' : result.message || result.error);
+    } finally {
+      busy = false;
+      await load();
+    }
+  }
+
+  // Double-click a field to edit it in place; Enter or leaving the field saves, Escape cancels
+  function editable(task, field, tag) {
+    const view = element('div', { className: field === 'content' ? 'title' : 'description', textContent: task[field] || '' });
+    view.addEventListener('dblclick', () => {
+      busy = true;
+      const input = element(tag, { value: task[field] || '' });
+      let done = false;
+      const finish = save => {
+        if (done) return;
+        done = true;
+        busy = false;
+        if (save && input.value !== (task[field] || '')) {
+          update(task, { [field]: field === 'description' && !input.value ? null : input.value });
+        } else {
+          input.replaceWith(view);
+        }
+      };
+      input.addEventListener('keydown', event => {
+        if (event.key === 'Escape') finish(false);
+        if (event.key === 'Enter' && !event.shiftKey) { event.preventDefault(); finish(true); }
+      });
+      input.addEventListener('blur', () => finish(true));
+      view.replaceWith(input);
+      input.focus();
+    });
+    return view;
+  }
+
+  function card(task) {
+    const priority = element('select', {}, ['high', 'medium', 'low'].map(value =>
+      element('option', { value, textContent: value, selected: value === task.priority })));
+    priority.addEventListener('change', () => update(task, { priority: priority.value }));
+
+    const meta = element('div', { className: 'meta' }, [priority]);
+    if (task.project) meta.append(task.project);
+    if (task.assignee) meta.append('@' + task.assignee);
+
+    const node = element('div', { className: 'card priority-' + task.priority, draggable: true }, [
+      editable(task, 'content', 'input'),
+      editable(task, 'description', 'textarea'),
+      meta
+    ]);
+    node.addEventListener('dragstart', event => {
+      busy = true;
+      event.dataTransfer.setData('text/plain', task.id);
+    });
+    node.addEventListener('dragend', () => { busy = false; });
+    return node;
+  }
+
+  function column(status, tasks, byId) {
+    const node = element('section', { className: 'column' }, [
+      element('h2', { textContent: status + ' (' + tasks.length + ')' }),
+      ...tasks.map(card)
+    ]);
+    node.addEventListener('dragover', event => { event.preventDefault(); node.classList.add('over'); });
+    node.addEventListener('dragleave', () => node.classList.remove('over'));
+    node.addEventListener('drop', event => {
+      event.preventDefault();
+      node.classList.remove('over');
+      const task = byId.get(event.dataTransfer.getData('text/plain'));
+      if (task && task.status !== status) update(task, { status });
+    });
+    return node;
+  }
+
+  async function load() {
+    const params = new URLSearchParams();
+    filters.forEach(name => {
+      const value = document.getElementById(name).value;
+      if (value) params.set(name, value);
+    });
+
+    const result = await (await fetch('/api/board?' + params)).json();
+    if (!result.success) {
+      showError(result.message || result.error);
+      return;
+    }
+
+    const board = result.data;
+    setOptions(document.getElementById('project'), board.projects);
+    setOptions(document.getElementById('conversation'), board.conversations);
+    const byId = new Map(board.tasks.map(task => [task.id, task]));
+    document.getElementById('board').replaceChildren(...board.statuses.map(status =>
+      column(status, board.tasks.filter(task => task.status === status), byId)));
+  }
+
+  filters.forEach(name => document.getElementById(name).addEventListener('change', load));
+  // Pick up changes made by MCP clients, unless the user is in the middle of an edit or a drag
+  setInterval(() => { if (!busy && !document.hidden) load().catch(error => showError(error.message)); }, 5000);
+  load().catch(error => showError(error.message));
+</script>
+</body>
+</html>
+`;
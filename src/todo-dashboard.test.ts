@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request, Server } from 'http';
+import { TodoStore } from './todo-store.js';
+import { MemoryTodoRepository } from './todo-repository.js';
+import { Workflows } from './todo-workflow.js';
+import { startTodoDashboard } from './todo-dashboard.js';
+
+describe('todo dashboard', () => {
+  let store: TodoStore;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    store = new TodoStore(new MemoryTodoRepository(), {
+      workflows: new Workflows({
+        projects: { api: { statuses: { todo: 'pending', doing: 'in_progress', done: 'completed', dropped: 'cancelled' } } }
+      })
+    });
+    server = await startTodoDashboard(store, { port: 0 });
+    baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const patch = async (id: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}/api/tasks/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('should serve the board page', async () => {
+    const response = await fetch(baseUrl);
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('<main id="board">');
+  });
+
+  it('should list the workflow statuses as columns with the filtered tasks', async () => {
+    await store.createTodo({ content: 'Design API', project: 'api', priority: 'high', conversation: 'c1' });
+    await store.createTodo({ content: 'Write tests', project: 'api', priority: 'low' });
+    await store.createTodo({ content: 'Landing page', project: 'web' });
+
+    const { data } = await (await fetch(`${baseUrl}/api/board?project=api&priority=high`)).json();
+    expect(data.statuses).toEqual(['todo', 'doing', 'done', 'dropped']);
+    expect(data.tasks.map((task: { content: string }) => task.content)).toEqual(['Design API']);
+    expect(data.projects).toEqual(['api', 'web']);
+    expect(data.conversations).toEqual(['c1']);
+  });
+
+  it('should apply edits through the store and record them as the dashboard', async () => {
+    const task = await store.createTodo({ content: 'Design API', project: 'api' });
+
+    const moved = await patch(task.id, { status: 'doing', content: 'Design the API', expectedVersion: task.version });
+    expect(moved.status).toBe(200);
+    expect(moved.body.data).toMatchObject({ status: 'doing', content: 'Design the API', version: 2 });
+
+    const history = await store.getTodoHistory(task.id);
+    expect(history?.[history.length - 1]).toMatchObject({ action: 'updated', actor: 'dashboard' });
+
+    // Edits based on an old version of the task, and statuses the workflow doesn't have, are rejected
+    expect((await patch(task.id, { priority: 'high', expectedVersion: 1 })).status).toBe(409);
+    expect((await patch(task.id, { status: 'in_progress' })).body.message).toContain('in_progress');
+    expect((await patch(task.id, { project: 'web' })).body.message).toBe("The dashboard can't change project");
+    expect((await patch('missing', { priority: 'high' })).status).toBe(404);
+  });
+
+  it('should reject values the updateTask tool would reject', async () => {
+    const task = await store.createTodo({ content: 'Design API', project: 'api' });
+
+    for (const body of [{ priority: 'urgent' }, { content: 42 }, { content: '' }, { description: ['a'] }, { expectedVersion: 1.5 }]) {
+      const result = await patch(task.id, body);
+      expect(result.status).toBe(400);
+      expect(result.body.error).toBe('Invalid task update');
+    }
+    expect(await store.getTodoById(task.id)).toMatchObject({ content: 'Design API', priority: 'medium', version: 1 });
+    expect(await store.searchTodos('design')).toHaveLength(1);
+  });
+
+  it('should refuse request bodies over the size limit', async () => {
+    const task = await store.createTodo({ content: 'Design API', project: 'api' });
+
+    const result = await patch(task.id, { description: 'x'.repeat(5 * 1024 * 1024) });
+    expect(result.status).toBe(413);
+    expect(result.body.error).toBe('Request body too large');
+    expect(await store.getTodoById(task.id)).toMatchObject({ version: 1 });
+  });
+
+  it('should reject requests from other hosts and origins', async () => {
+    // fetch can't set Host, which is what a DNS-rebinding page would send
+    const status = await new Promise<number>((resolve, reject) => {
+      request(`${baseUrl}/api/board`, { headers: { Host: 'evil.example' } }, response => resolve(response.statusCode as number))
+        .on('error', reject)
+        .end();
+    });
+    expect(status).toBe(403);
+
+    const task = await store.createTodo({ content: 'Design API', project: 'api' });
+    const fromOrigin = (origin: string) => fetch(`${baseUrl}/api/tasks/${task.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Origin: origin },
+      body: JSON.stringify({ priority: 'high' })
+    });
+    expect((await fromOrigin('https://evil.example')).status).toBe(403);
+    expect((await fromOrigin(baseUrl)).status).toBe(200);
+  });
+});
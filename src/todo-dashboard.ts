@@ -0,0 +1,179 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { allowedHostsFor, isAllowedRequest, readJsonBody, BodyTooLargeError } from './fluent-mcp.js';
+import { TodoStore, Todo, TodoUpdates, VersionConflictError } from './todo-store.js';
+import { DASHBOARD_HTML } from './todo-dashboard-page.js';
+
+export interface TodoDashboardOptions {
+  port?: number;
+  host?: string;
+}
+
+export interface DashboardBoard {
+  // Columns in workflow order, followed by any other status a shown task is in
+  statuses: string[];
+  tasks: Todo[];
+  projects: string[];
+  conversations: string[];
+}
+
+// The fields the board can change, checked like the updateTask tool checks them; everything
+// else is left to the MCP tools
+const dashboardUpdateSchema = z.object({
+  content: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  status: z.string().min(1).optional(),
+  priority: z.enum(['high', 'medium', 'low']).optional(),
+  assignee: z.string().nullable().optional(),
+  expectedVersion: z.number().int().nonnegative().optional()
+});
+
+// Recorded as the actor of changes made from the board
+const DASHBOARD_ACTOR = 'dashboard';
+
+// The tasks in scope for the board's filters, with the statuses to show as columns
+export async function getDashboardBoard(store: TodoStore, filters: { project?: string; conversation?: string; priority?: string }): Promise<DashboardBoard> {
+  const tasks = await store.filterTodos(filters);
+  const statuses = new Set(Object.keys(store.getWorkflow(filters.project).statuses));
+  tasks.forEach(task => statuses.add(task.status));
+
+  const conversations = new Set((await store.getAllTodos()).map(todo => todo.conversation).filter(Boolean) as string[]);
+  return {
+    statuses: [...statuses],
+    tasks,
+    projects: (await store.listProjects()).map(summary => summary.project),
+    conversations: [...conversations].sort()
+  };
+}
+
+// Check a request body against the editable fields, rejecting other fields and values of the wrong type
+export function parseDashboardUpdates(body: Record<string, unknown>): { updates: TodoUpdates; expectedVersion?: number } {
+  const unknown = Object.keys(body).filter(field => !(field in dashboardUpdateSchema.shape));
+  if (unknown.length > 0) {
+    throw new Error(`The dashboard can't change ${unknown.join(', ')}`);
+  }
+
+  const parsed = dashboardUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+  }
+
+  const { expectedVersion, ...updates } = parsed.data;
+  return { updates, ...(expectedVersion !== undefined && { expectedVersion }) };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body, null, 2));
+}
+
+// Read a JSON object body, limited in size like requests to the MCP transport
+async function readJsonObject(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readJsonBody(req);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Expected a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+// Apply an edit from the board through the same store method the updateTask tool uses
+async function updateFromDashboard(store: TodoStore, id: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonObject(req);
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      // Close the connection rather than read the rest of the body
+      res.setHeader('Connection', 'close');
+      return sendJson(res, 413, { success: false, error: 'Request body too large', message: error.message });
+    }
+    return sendJson(res, 400, { success: false, error: 'Invalid request body', message: (error as Error).message });
+  }
+
+  let parsed: ReturnType<typeof parseDashboardUpdates>;
+  try {
+    parsed = parseDashboardUpdates(body);
+  } catch (error) {
+    return sendJson(res, 400, { success: false, error: 'Invalid task update', message: (error as Error).message });
+  }
+
+  try {
+    const { updates, expectedVersion } = parsed;
+    const todo = await store.updateTodo(id, updates, { actor: DASHBOARD_ACTOR }, expectedVersion);
+    if (!todo) {
+      return sendJson(res, 404, { success: false, error: 'Task not found', id });
+    }
+
+    sendJson(res, 200, { success: true, data: todo });
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return sendJson(res, 409, {
+        success: false,
+        error: 'Version conflict',
+        message: error.message,
+        expectedVersion: error.expectedVersion,
+        currentVersion: error.todo.version ?? 0,
+        current: error.todo
+      });
+    }
+
+    sendJson(res, 400, { success: false, error: 'Failed to update task', message: (error as Error).message });
+  }
+}
+
+/**
+ * Create the HTTP server for the local kanban board: the page at /, the board's tasks at
+ * GET /api/board and edits at PATCH /api/tasks/:id. Requests have to name one of `hosts` in
+ * their Host header, and browsers may only call from those hosts, so other sites can't edit
+ * tasks through DNS rebinding. Without hosts, only same-origin browser requests are accepted.
+ */
+export function createTodoDashboard(store: TodoStore, hosts: () => string[] | null = () => null): Server {
+  return createServer(async (req, res) => {
+    try {
+      if (!isAllowedRequest(req, { hosts: hosts() })) {
+        return sendJson(res, 403, { success: false, error: 'Forbidden host or origin' });
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost');
+      const taskMatch = url.pathname.match(/^\/api\/tasks\/([^/]+)$/);
+
+      if (url.pathname === '/' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(DASHBOARD_HTML);
+      } else if (url.pathname === '/api/board' && req.method === 'GET') {
+        const filter = (name: string) => url.searchParams.get(name) || undefined;
+        sendJson(res, 200, {
+          success: true,
+          data: await getDashboardBoard(store, { project: filter('project'), conversation: filter('conversation'), priority: filter('priority') })
+        });
+      } else if (taskMatch && req.method === 'PATCH') {
+        await updateFromDashboard(store, decodeURIComponent(taskMatch[1]), req, res);
+      } else {
+        sendJson(res, 404, { success: false, error: 'Not found' });
+      }
+    } catch (error) {
+      console.error('Error serving dashboard:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { success: false, error: 'Failed to serve dashboard', message: (error as Error).message });
+      }
+    }
+  });
+}
+
+// Serve the kanban board, on localhost unless a host is given
+export async function startTodoDashboard(store: TodoStore, options: TodoDashboardOptions = {}): Promise<Server> {
+  const { port = 3002, host = '127.0.0.1' } = options;
+  // The port is only known once listening
+  let hosts: string[] | null = null;
+  const server = createTodoDashboard(store, () => hosts);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  hosts = allowedHostsFor(host, (server.address() as AddressInfo).port);
+  return server;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { TodoStore } from './todo-store.js';
+import { MemoryTodoRepository } from './todo-repository.js';
+import { attachTodoEvents, parseSubscription, startTodoEventServer, taskEvents, TodoEventServer } from './todo-events.js';
+
+describe('todo events', () => {
+  let store: TodoStore;
+
+  beforeEach(() => {
+    store = new TodoStore(new MemoryTodoRepository());
+  });
+
+  it('should name events after how each task changed', async () => {
+    const task = await store.createTodo({ content: 'Write docs', project: 'app', conversation: 'c1' });
+    const moved = { ...task, project: 'web', status: 'in_progress' };
+
+    expect(taskEvents({ action: 'created', versions: [[null, task]], actor: 'agent-1' })).toEqual([
+      { name: 'task:created', event: { task, actor: 'agent-1' }, rooms: ['tasks', 'project:app', 'conversation:c1'] }
+    ]);
+    expect(taskEvents({ action: 'updated', versions: [[task, moved]] })).toEqual([
+      { name: 'task:updated', event: { task: moved, previous: task }, rooms: ['tasks', 'project:app', 'conversation:c1', 'project:web'] }
+    ]);
+    // Undoing a creation removes the task, so it is announced as a deletion
+    expect(taskEvents({ action: 'updated', versions: [[task, null]], reason: 'Undo' })[0]).toMatchObject({
+      name: 'task:deleted',
+      event: { task, reason: 'Undo' }
+    });
+  });
+
+  describe('attachTodoEvents', () => {
+    let io: TodoEventServer;
+    let emitted: Array<{ rooms: string[]; name: string; content: string }>;
+    let stopEvents: () => void;
+
+    beforeEach(() => {
+      io = new Server();
+      emitted = [];
+      vi.spyOn(io, 'to').mockImplementation(rooms => ({
+        emit: (name: string, event: { task: { content: string } }) => {
+          emitted.push({ rooms: rooms as string[], name, content: event.task.content });
+          return true;
+        }
+      }) as unknown as ReturnType<TodoEventServer['to']>);
+      stopEvents = attachTodoEvents(io, store);
+    });
+
+    afterEach(() => {
+      stopEvents();
+    });
+
+    it('should emit store changes to the rooms of the tasks', async () => {
+      const task = await store.createTodo({ content: 'Write docs', project: 'app' });
+      await store.updateTodo(task.id, { status: 'in_progress' });
+      await store.deleteTodo(task.id, true);
+
+      expect(emitted).toEqual([
+        { rooms: ['tasks', 'project:app'], name: 'task:created', content: 'Write docs' },
+        { rooms: ['tasks', 'project:app'], name: 'task:updated', content: 'Write docs' },
+        { rooms: ['tasks', 'project:app'], name: 'task:deleted', content: 'Write docs' }
+      ]);
+
+      stopEvents();
+      await store.createTodo({ content: 'Unheard' });
+      expect(emitted).toHaveLength(3);
+    });
+  });
+
+  it('should only accept subscriptions to projects and conversations', () => {
+    expect(parseSubscription(undefined)).toEqual({});
+    expect(parseSubscription({ project: 'app' })).toEqual({ project: 'app' });
+    for (const payload of [null, 7, 'app', ['app'], { project: 7 }, { conversation: {} }]) {
+      expect(parseSubscription(payload)).toBeNull();
+    }
+  });
+
+  describe('startTodoEventServer', () => {
+    let io: TodoEventServer;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      io = await startTodoEventServer(store, { port: 0, corsOrigin: 'http://localhost:5173' });
+      baseUrl = `http://127.0.0.1:${(io.httpServer.address() as AddressInfo).port}/socket.io/?EIO=4&transport=polling`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => io.close(resolve));
+    });
+
+    // Speak socket.io's long-polling protocol, which needs no client library
+    const connect = async (headers: Record<string, string> = {}) => {
+      const handshake = await fetch(baseUrl, { headers });
+      if (handshake.status !== 200) {
+        return { status: handshake.status };
+      }
+
+      const { sid } = JSON.parse((await handshake.text()).slice(1));
+      const url = `${baseUrl}&sid=${sid}`;
+      const send = (packet: string) => fetch(url, { method: 'POST', body: packet }).then(response => response.text());
+      const receive = async () => (await (await fetch(url)).text()).split('\x1e');
+
+      await send('40');
+      expect((await receive())[0]).toMatch(/^40/);
+      return { status: handshake.status, send, receive };
+    };
+
+    it('should ignore malformed subscriptions and keep serving', async () => {
+      const client = await connect();
+      for (const payload of ['null', '7', '"app"', '{"project":7}']) {
+        await client.send!(`42["subscribe",${payload}]`);
+      }
+      await client.send!('42["subscribe",{"project":"app"}]');
+
+      await store.createTodo({ content: 'Landing page', project: 'web' });
+      await store.createTodo({ content: 'Write docs', project: 'app' });
+
+      const packets = await client.receive!();
+      expect(packets).toHaveLength(1);
+      expect(JSON.parse(packets[0].slice(2))).toMatchObject(['task:created', { task: { content: 'Write docs' } }]);
+    });
+
+    it('should refuse connections from other hosts and origins', async () => {
+      // fetch can't set Host, which is what a DNS-rebinding page would send
+      const status = await new Promise<number>((resolve, reject) => {
+        request(baseUrl, { headers: { Host: 'evil.example' } }, response => resolve(response.statusCode as number))
+          .on('error', reject)
+          .end();
+      });
+      expect(status).toBe(403);
+
+      expect((await connect({ Origin: 'https://evil.example' })).status).toBe(403);
+      expect((await connect({ Origin: 'http://localhost:5173' })).status).toBe(200);
+      expect((await connect({ Origin: new URL(baseUrl).origin })).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, Socket } from 'socket.io';
+import { allowedHostsFor, isAllowedRequest } from './fluent-mcp.js';
+import type { TodoStore, Todo, TodoChange } from './todo-store.js';
+
+export type TaskEventName = 'task:created' | 'task:updated' | 'task:deleted';
+
+export interface TaskEvent {
+  task: Todo;
+  // The task before an update
+  previous?: Todo;
+  actor?: string;
+  reason?: string;
+}
+
+// Which tasks a client wants to hear about; without a project or conversation, every task
+export interface TaskSubscription {
+  project?: string;
+  conversation?: string;
+}
+
+export interface ServerToClientEvents {
+  'task:created': (event: TaskEvent) => void;
+  'task:updated': (event: TaskEvent) => void;
+  'task:deleted': (event: TaskEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  // Clients can send anything, so subscriptions are checked before use
+  subscribe: (subscription: unknown) => void;
+  unsubscribe: (subscription: unknown) => void;
+}
+
+export type TodoEventServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+export interface TodoEventServerOptions {
+  port?: number;
+  host?: string;
+  // Origins allowed to connect from a browser, such as a dashboard served elsewhere
+  corsOrigin?: string | string[];
+}
+
+// Clients in this room hear about every task
+export const ALL_TASKS_ROOM = 'tasks';
+
+export const projectRoom = (project: string) => `project:${project}`;
+export const conversationRoom = (conversation: string) => `conversation:${conversation}`;
+
+// The subscription a client sent, or null when it isn't one; sending nothing subscribes to every task
+export function parseSubscription(payload: unknown): TaskSubscription | null {
+  if (payload === undefined) {
+    return {};
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return null;
+  }
+
+  const { project, conversation } = payload as Record<string, unknown>;
+  if ((project !== undefined && typeof project !== 'string') || (conversation !== undefined && typeof conversation !== 'string')) {
+    return null;
+  }
+  return { project, conversation };
+}
+
+function subscriptionRooms({ project, conversation }: TaskSubscription): string[] {
+  if (!project && !conversation) {
+    return [ALL_TASKS_ROOM];
+  }
+
+  return [
+    ...(project ? [projectRoom(project)] : []),
+    ...(conversation ? [conversationRoom(conversation)] : [])
+  ];
+}
+
+// The rooms a task belongs to; a task that moved is announced in both its old and new rooms
+function taskRooms(...todos: Array<Todo | null>): string[] {
+  const rooms = new Set([ALL_TASKS_ROOM]);
+  for (const todo of todos) {
+    if (todo?.project) rooms.add(projectRoom(todo.project));
+    if (todo?.conversation) rooms.add(conversationRoom(todo.conversation));
+  }
+  return [...rooms];
+}
+
+// Turn a recorded change into one event per task. Whether a task was created, updated or
+// deleted follows from its versions, so undoing a creation is announced as a deletion.
+export function taskEvents(change: TodoChange): Array<{ name: TaskEventName; event: TaskEvent; rooms: string[] }> {
+  const context = {
+    ...(change.actor && { actor: change.actor }),
+    ...(change.reason && { reason: change.reason })
+  };
+
+  return change.versions.map(([before, after]) => {
+    const rooms = taskRooms(before, after);
+    if (!before) {
+      return { name: 'task:created', event: { task: after as Todo, ...context }, rooms };
+    }
+    if (!after) {
+      return { name: 'task:deleted', event: { task: before, ...context }, rooms };
+    }
+    return { name: 'task:updated', event: { task: after, previous: before, ...context }, rooms };
+  });
+}
+
+// Let a client join and leave rooms, ignoring messages that aren't subscriptions
+function handleConnection(socket: Socket<ClientToServerEvents, ServerToClientEvents>): void {
+  socket.on('subscribe', payload => {
+    const subscription = parseSubscription(payload);
+    if (subscription) {
+      subscriptionRooms(subscription).forEach(room => socket.join(room));
+    }
+  });
+  socket.on('unsubscribe', payload => {
+    const subscription = parseSubscription(payload);
+    if (subscription) {
+      subscriptionRooms(subscription).forEach(room => socket.leave(room));
+    }
+  });
+}
+
+/**
+ * Emit task:created, task:updated and task:deleted on a socket.io server for every change
+ * to the store. Clients subscribe to a project or conversation, or to every task by
+ * subscribing without either. Returns a function that stops the events.
+ */
+export function attachTodoEvents(io: TodoEventServer, store: TodoStore): () => void {
+  io.on('connection', handleConnection);
+  const stopChanges = store.onChange(change => {
+    for (const { name, event, rooms } of taskEvents(change)) {
+      io.to(rooms).emit(name, event);
+    }
+  });
+
+  return () => {
+    stopChanges();
+    io.off('connection', handleConnection);
+  };
+}
+
+/**
+ * Start a socket.io server of its own, next to whichever transport MCP clients use. Browsers
+ * don't apply CORS to WebSockets, so connections have to name the server in their Host header
+ * and come from the server's own origin or `corsOrigin`, like requests to the MCP transport.
+ */
+export async function startTodoEventServer(store: TodoStore, options: TodoEventServerOptions = {}): Promise<TodoEventServer> {
+  const { port = 3001, host = '127.0.0.1', corsOrigin } = options;
+  const origins = corsOrigin ? [corsOrigin].flat() : [];
+  // The port is only known once listening
+  let hosts: string[] | null = null;
+
+  const httpServer = createServer();
+  const io: TodoEventServer = new Server(httpServer, {
+    ...(corsOrigin && { cors: { origin: corsOrigin } }),
+    allowRequest: (req, callback) => callback(null, isAllowedRequest(req, { hosts, origins }))
+  });
+
+  const stopEvents = attachTodoEvents(io, store);
+  httpServer.on('close', stopEvents);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  hosts = allowedHostsFor(host, (httpServer.address() as AddressInfo).port);
+  return io;
+}
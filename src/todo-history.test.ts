@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileTodoHistory, TodoHistoryEntry } from './todo-history.js';
+
+const makeEntry = (taskId: string, at: string, overrides: Partial<TodoHistoryEntry> = {}): TodoHistoryEntry => ({
+  taskId,
+  action: 'updated',
+  at,
+  changes: [{ field: 'status', from: 'pending', to: 'completed' }],
+  ...overrides
+});
+
+describe('FileTodoHistory', () => {
+  let tmpDir: string;
+  let historyPath: string;
+  let history: FileTodoHistory;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-todo-history-'));
+    historyPath = path.join(tmpDir, 'history.log');
+    history = new FileTodoHistory(historyPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read entries back per task and newest first', async () => {
+    await history.append([makeEntry('a', '2025-01-01T00:00:00.000Z'), makeEntry('b', '2025-01-02T00:00:00.000Z', { project: 'alpha' })]);
+    await history.append([makeEntry('a', '2025-01-03T00:00:00.000Z')]);
+
+    expect((await history.getForTask('a')).map(entry => entry.at)).toEqual(['2025-01-01T00:00:00.000Z', '2025-01-03T00:00:00.000Z']);
+    expect((await history.getRecent()).map(entry => entry.taskId)).toEqual(['a', 'b', 'a']);
+    expect(await history.getRecent({ since: '2025-01-02T00:00:00.000Z', project: 'alpha' })).toHaveLength(1);
+  });
+
+  it('should skip a torn final entry', async () => {
+    await history.append([makeEntry('a', '2025-01-01T00:00:00.000Z')]);
+    await fs.appendFile(historyPath, '{"taskId":"b"', 'utf8');
+
+    await history.append([makeEntry('c', '2025-01-02T00:00:00.000Z')]);
+
+    expect((await history.getRecent()).map(entry => entry.taskId)).toEqual(['c', 'a']);
+  });
+});
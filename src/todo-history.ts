@@ -0,0 +1,165 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { withFileLock } from './file-lock.js';
+import type { Todo } from './todo-store.js';
+
+export type TodoHistoryAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+// A single field that changed; fields a todo didn't have are recorded as null
+export interface TodoFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Who made a change and why
+export interface ChangeContext {
+  actor?: string;
+  conversation?: string;
+  reason?: string;
+}
+
+export interface TodoHistoryEntry extends ChangeContext {
+  taskId: string;
+  action: TodoHistoryAction;
+  at: string;
+  changes: TodoFieldChange[];
+  // Where the task lived after the change, so activity can be filtered without the task
+  project?: string;
+  workspace?: string;
+}
+
+export interface ActivityQuery {
+  since?: string;
+  project?: string;
+  workspace?: string;
+  limit?: number;
+}
+
+/**
+ * Append-only record of changes to todos. TodoStore writes an entry for every
+ * mutation; entries are never changed once written.
+ */
+export interface TodoHistory {
+  append(entries: TodoHistoryEntry[]): Promise<void>;
+  // Entries for a single task, oldest first
+  getForTask(taskId: string): Promise<TodoHistoryEntry[]>;
+  // Entries across all tasks, newest first
+  getRecent(query?: ActivityQuery): Promise<TodoHistoryEntry[]>;
+}
+
+// Compare two versions of a todo field by field; updatedAt and version are implied by the entry itself
+export function diffTodos(before: Todo | null, after: Todo | null): TodoFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  fields.delete('updatedAt');
+  fields.delete('version');
+
+  const changes: TodoFieldChange[] = [];
+  for (const field of fields) {
+    const from = before?.[field as keyof Todo] ?? null;
+    const to = after?.[field as keyof Todo] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+// Newest first, narrowed by an activity query
+function selectRecent(entries: TodoHistoryEntry[], query: ActivityQuery): TodoHistoryEntry[] {
+  const recent = entries
+    .filter(entry => !query.since || entry.at >= query.since)
+    .filter(entry => !query.project || entry.project === query.project)
+    .filter(entry => !query.workspace || entry.workspace === query.workspace)
+    .reverse();
+
+  return query.limit ? recent.slice(0, query.limit) : recent;
+}
+
+// Keeps history in memory only; useful for tests and CI
+export class MemoryTodoHistory implements TodoHistory {
+  private entries: TodoHistoryEntry[] = [];
+
+  async append(entries: TodoHistoryEntry[]): Promise<void> {
+    this.entries.push(...structuredClone(entries));
+  }
+
+  async getForTask(taskId: string): Promise<TodoHistoryEntry[]> {
+    return structuredClone(this.entries.filter(entry => entry.taskId === taskId));
+  }
+
+  async getRecent(query: ActivityQuery = {}): Promise<TodoHistoryEntry[]> {
+    return structuredClone(selectRecent(this.entries, query));
+  }
+}
+
+// Keeps history in a JSON Lines file next to the todos, one entry per line
+export class FileTodoHistory implements TodoHistory {
+  private historyPath: string;
+
+  constructor(historyPath: string) {
+    this.historyPath = historyPath;
+
+    const dir = path.dirname(historyPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  // Read every entry, skipping lines torn by a crash mid-append
+  async load(): Promise<TodoHistoryEntry[]> {
+    if (!existsSync(this.historyPath)) {
+      return [];
+    }
+
+    const entries: TodoHistoryEntry[] = [];
+    for (const line of (await fs.readFile(this.historyPath, 'utf8')).split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        continue;
+      }
+    }
+
+    return entries;
+  }
+
+  async append(entries: TodoHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await withFileLock(this.historyPath, async () => {
+      const file = await fs.open(this.historyPath, 'a+');
+
+      try {
+        // Start on a fresh line if the last append was torn
+        const { size } = await file.stat();
+        const lastByte = Buffer.alloc(1);
+        if (size > 0) {
+          await file.read(lastByte, 0, 1, size - 1);
+        }
+        const prefix = size > 0 && lastByte.toString() !== '\n' ? '\n' : '';
+
+        await file.appendFile(prefix + entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+      } finally {
+        await file.close();
+      }
+    });
+  }
+
+  async getForTask(taskId: string): Promise<TodoHistoryEntry[]> {
+    return (await this.load()).filter(entry => entry.taskId === taskId);
+  }
+
+  async getRecent(query: ActivityQuery = {}): Promise<TodoHistoryEntry[]> {
+    return selectRecent(await this.load(), query);
+  }
+}
@@ -0,0 +1,66 @@
+import type { Todo } from './todo-store.js';
+
+// The state of a todo before and after a change; null where it didn't exist
+export type TodoVersions = [before: Todo | null, after: Todo | null];
+
+// Every change made by one call into TodoStore, including cascades, so it can be undone as a whole
+export interface TodoOperation {
+  id: string;
+  at: string;
+  conversation?: string;
+  versions: TodoVersions[];
+}
+
+// Operations kept for undo; older ones are dropped
+const MAX_OPERATIONS = 200;
+
+/**
+ * Undo and redo stacks of operations. Both are shared, but each lookup can be narrowed to a
+ * conversation so one conversation never undoes another's work. The journal lives in memory
+ * and starts empty when the server restarts.
+ */
+export class OperationJournal {
+  private done: TodoOperation[] = [];
+  private undone: TodoOperation[] = [];
+
+  // Remember a completed operation. New work in a conversation makes its undone operations stale.
+  record(operation: TodoOperation): void {
+    if (operation.versions.length === 0) {
+      return;
+    }
+
+    this.done.push(operation);
+    this.done.splice(0, Math.max(0, this.done.length - MAX_OPERATIONS));
+    this.undone = this.undone.filter(undone => undone.conversation !== operation.conversation);
+  }
+
+  // The latest operation that can be undone, optionally only from one conversation
+  lastDone(conversation?: string): TodoOperation | undefined {
+    return findLast(this.done, conversation);
+  }
+
+  // The latest undone operation that can be redone, optionally only from one conversation
+  lastUndone(conversation?: string): TodoOperation | undefined {
+    return findLast(this.undone, conversation);
+  }
+
+  markUndone(operation: TodoOperation): void {
+    this.done = this.done.filter(done => done !== operation);
+    this.undone.push(operation);
+  }
+
+  markRedone(operation: TodoOperation): void {
+    this.undone = this.undone.filter(undone => undone !== operation);
+    this.done.push(operation);
+  }
+}
+
+function findLast(operations: TodoOperation[], conversation?: string): TodoOperation | undefined {
+  for (let i = operations.length - 1; i >= 0; i--) {
+    if (!conversation || operations[i].conversation === conversation) {
+      return operations[i];
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMCP } from './fluent-mcp.js';
+import { TodoStore, Todo } from './todo-store.js';
+import { MemoryTodoRepository } from './todo-repository.js';
+import { registerTodoPrompts, standupPrompt, triagePrompt, retrospectivePrompt } from './todo-prompts.js';
+
+describe('todo prompts', () => {
+  let store: TodoStore;
+
+  beforeEach(() => {
+    store = new TodoStore(new MemoryTodoRepository());
+  });
+
+  it('should build a standup from completed, in-progress and blocked work', async () => {
+    const done = await store.createTodo({ content: 'Fix login', project: 'app' });
+    await store.updateTodo(done.id, { status: 'completed' });
+    await store.createTodo({ content: 'Write docs', project: 'app', status: 'in_progress' });
+    const blocked = await store.createTodo({ content: 'Release', project: 'app', dependsOn: [done.id] });
+    await store.createTodo({ content: 'Migrate', project: 'app', dependsOn: [blocked.id] });
+    await store.createTodo({ content: 'Other project', project: 'web', status: 'in_progress' });
+
+    const text = await standupPrompt(store, { project: 'app' });
+
+    expect(text).toContain('project "app"');
+    expect(text).toMatch(/Completed in this period:\n- \[completed\] Fix login/);
+    expect(text).toMatch(/In progress:\n- \[in_progress\] Write docs/);
+    expect(text).toMatch(/Waiting on unfinished dependencies:\n- \[pending\] Migrate/);
+    expect(text).not.toContain('Other project');
+
+    // Work completed before the period isn't reported again
+    expect(await standupPrompt(store, { project: 'app', from: '2020-01-01T00:00:00Z', to: '2020-01-02T00:00:00Z' }))
+      .toMatch(/Completed in this period:\n- none/);
+    await expect(standupPrompt(store, { from: 'yesterday' })).rejects.toThrow('Invalid from timestamp');
+  });
+
+  it('should list stale pending tasks oldest first', async () => {
+    const old = (id: string, content: string, updatedAt: string): Todo =>
+      ({ id, content, status: 'pending', priority: 'low', createdAt: updatedAt, updatedAt });
+    store = new TodoStore(new MemoryTodoRepository([old('b', 'Older idea', '2024-01-01T00:00:00.000Z'), old('a', 'Old idea', '2024-06-01T00:00:00.000Z')]));
+    await store.createTodo({ content: 'Fresh idea' });
+
+    const text = await triagePrompt(store, {});
+    expect(text).toContain([
+      'Stale tasks, oldest first:',
+      '- [pending] Older idea (id b, low priority), last changed 2024-01-01',
+      '- [pending] Old idea (id a, low priority), last changed 2024-06-01'
+    ].join('\n'));
+    expect(text).not.toContain('Fresh idea');
+    await expect(triagePrompt(store, { days: 'soon' })).rejects.toThrow('days must be a number of days');
+  });
+
+  it('should report tasks that took longer than estimated in a retrospective', async () => {
+    const task = await store.createTodo({ content: 'Refactor', estimateMinutes: 30 });
+    await store.logTime(task.id, 45);
+    await store.updateTodo(task.id, { status: 'completed' });
+
+    const text = await retrospectivePrompt(store, {});
+    expect(text).toContain('Time tracked: 45 minutes.');
+    expect(text).toContain(`- Refactor (id ${task.id}): 45 of 30 estimated minutes`);
+  });
+
+  it('should serve the prompts to MCP clients', async () => {
+    const server = createMCP('Todo prompts test', '1.0.0');
+    registerTodoPrompts(server, store);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['planFeature', 'standup', 'triageStale', 'retrospective']);
+
+    await store.createTodo({ content: 'Set up CI', project: 'app' });
+    const result = await client.getPrompt({ name: 'planFeature', arguments: { feature: 'Dark mode', project: 'app' } });
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(text).toContain('Dark mode');
+    expect(text).toContain('New tasks start as "pending"');
+    expect(text).toContain('- [pending] Set up CI');
+
+    await client.close();
+  });
+});
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import type { FluentMCP } from './fluent-mcp.js';
+import type { TodoStore, Todo } from './todo-store.js';
+import type { StatusCategory } from './todo-workflow.js';
+
+export interface DateRangeArgs {
+  project?: string;
+  // ISO 8601 timestamps
+  from?: string;
+  to?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Normalize an optional date range, defaulting to the given number of days up to now
+function dateRange(args: DateRangeArgs, days: number): { from: string; to: string } {
+  const parse = (value: string, field: string) => {
+    const time = new Date(value).getTime();
+    if (isNaN(time)) {
+      throw new Error(`Invalid ${field} timestamp: ${value}`);
+    }
+    return time;
+  };
+
+  const to = args.to ? parse(args.to, 'to') : Date.now();
+  const from = args.from ? parse(args.from, 'from') : to - days * DAY_MS;
+  return { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+}
+
+// One line per task, with what a reader needs to act on it
+function taskLine(todo: Todo): string {
+  const details = [
+    `id ${todo.id}`,
+    `${todo.priority} priority`,
+    ...(todo.assignee ? [`assigned to ${todo.assignee}`] : []),
+    ...(todo.dueAt ? [`due ${todo.dueAt.slice(0, 10)}`] : [])
+  ];
+  return `- [${todo.status}] ${todo.content} (${details.join(', ')})`;
+}
+
+function taskList(todos: Todo[]): string {
+  return todos.length > 0 ? todos.map(taskLine).join('\n') : '- none';
+}
+
+function scopeOf(project?: string): string {
+  return project ? `project "${project}"` : 'all projects';
+}
+
+// Tasks that moved into a status of the given category during the range and are still there
+async function movedInto(store: TodoStore, category: StatusCategory, range: { from: string; to: string }, project?: string): Promise<Todo[]> {
+  const entries = await store.getActivity({ since: range.from, project, limit: Infinity });
+  const ids = new Set(entries
+    .filter(entry => entry.at <= range.to)
+    .filter(entry => entry.changes.some(change =>
+      change.field === 'status' && store.workflows.category(String(change.to), entry.project) === category
+    ))
+    .map(entry => entry.taskId));
+
+  return (await store.getAllTodos())
+    .filter(todo => ids.has(todo.id) && store.workflows.category(todo.status, todo.project) === category);
+}
+
+async function openTasks(store: TodoStore, category: StatusCategory, project?: string): Promise<Todo[]> {
+  return (await store.filterTodos({ project }))
+    .filter(todo => store.workflows.category(todo.status, todo.project) === category);
+}
+
+// Break a feature down into tasks that fit the project's workflow and don't repeat open work
+export async function planFeaturePrompt(store: TodoStore, args: { feature: string; project?: string }): Promise<string> {
+  const workflow = store.getWorkflow(args.project);
+  const open = [
+    ...await openTasks(store, 'pending', args.project),
+    ...await openTasks(store, 'in_progress', args.project)
+  ];
+
+  return [
+    `Break this feature down into tasks for ${scopeOf(args.project)}:`,
+    '',
+    args.feature,
+    '',
+    'Aim for tasks that take less than a day each. Give each a clear title, a description and acceptance criteria.',
+    'Group related tasks under a parent task, and mark tasks that have to wait for others with dependsOn.',
+    `Create them in one createTasks call${args.project ? ` with project "${args.project}"` : ''}, using keys so tasks can refer to each other before they exist.`,
+    '',
+    `New tasks start as "${workflow.initial}". The statuses in this workflow are: ${Object.keys(workflow.statuses).join(', ')}.`,
+    '',
+    'Open tasks already tracked, so you don\'t duplicate them:',
+    taskList(open)
+  ].join('\n');
+}
+
+// A standup from what was finished in the range, what is underway and what is stuck
+export async function standupPrompt(store: TodoStore, args: DateRangeArgs): Promise<string> {
+  const range = dateRange(args, 1);
+  const blocked = (await store.filterTodos({ project: args.project, blocked: true }))
+    .filter(todo => store.workflows.category(todo.status, todo.project) === 'pending');
+
+  return [
+    `Write a short standup update for ${scopeOf(args.project)} from ${range.from} to ${range.to}.`,
+    'Use three sections: Done, Today and Blockers. Keep each item to one line and leave out task IDs.',
+    '',
+    'Completed in this period:',
+    taskList(await movedInto(store, 'completed', range, args.project)),
+    '',
+    'In progress:',
+    taskList(await openTasks(store, 'in_progress', args.project)),
+    '',
+    'Next up:',
+    taskList(await store.getNextTodos({ project: args.project, limit: 5 })),
+    '',
+    'Waiting on unfinished dependencies:',
+    taskList(blocked)
+  ].join('\n');
+}
+
+// Pending tasks nobody has touched for a while, oldest first, with a decision asked for each
+export async function triagePrompt(store: TodoStore, args: { project?: string; days?: string }): Promise<string> {
+  const days = args.days === undefined ? 14 : Number(args.days);
+  if (!(days >= 0)) {
+    throw new Error(`days must be a number of days, got ${args.days}`);
+  }
+
+  const cutoff = new Date(Date.now() - days * DAY_MS).toISOString();
+  const stale = (await openTasks(store, 'pending', args.project))
+    .filter(todo => todo.updatedAt < cutoff)
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+
+  return [
+    `Triage the pending tasks in ${scopeOf(args.project)} that haven't changed in ${days} days.`,
+    'For each one, recommend keeping it, changing its priority or due date, splitting it, or cancelling it, with a one-line reason.',
+    'Once the recommendations are agreed, apply them with updateTasks and deleteTasks so they can be undone as one change.',
+    '',
+    'Stale tasks, oldest first:',
+    stale.length > 0
+      ? stale.map(todo => `${taskLine(todo)}, last changed ${todo.updatedAt.slice(0, 10)}`).join('\n')
+      : '- none'
+  ].join('\n');
+}
+
+// A retrospective over the range, from finished and dropped work and the time it took
+export async function retrospectivePrompt(store: TodoStore, args: DateRangeArgs): Promise<string> {
+  const range = dateRange(args, 14);
+  const report = await store.getTimeReport({ project: args.project, from: range.from, to: range.to });
+  const overEstimate = report.byTask.filter(task => task.estimateMinutes !== null && task.minutes > task.estimateMinutes);
+
+  return [
+    `Run a retrospective for ${scopeOf(args.project)} from ${range.from} to ${range.to}.`,
+    'Cover what went well, what didn\'t, and two or three concrete changes to try next. Point at specific tasks as evidence.',
+    '',
+    'Completed:',
+    taskList(await movedInto(store, 'completed', range, args.project)),
+    '',
+    'Cancelled:',
+    taskList(await movedInto(store, 'cancelled', range, args.project)),
+    '',
+    `Time tracked: ${report.totalMinutes} minutes.`,
+    'Tasks that took longer than estimated:',
+    overEstimate.length > 0
+      ? overEstimate.map(task => `- ${task.content} (id ${task.id}): ${task.minutes} of ${task.estimateMinutes} estimated minutes`).join('\n')
+      : '- none'
+  ].join('\n');
+}
+
+function userMessage(text: string) {
+  return {
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text }
+      }
+    ]
+  };
+}
+
+/**
+ * Register prompts for the planning, standup, triage and retrospective workflows. Each one
+ * pulls the current tasks into its text when the client asks for it.
+ */
+export function registerTodoPrompts(server: FluentMCP, store: TodoStore): void {
+  const project = z.string().optional().describe('Only look at this project');
+  const from = z.string().optional().describe('Start of the period as an ISO 8601 timestamp');
+  const to = z.string().optional().describe('End of the period as an ISO 8601 timestamp; defaults to now');
+
+  server.prompt(
+    'planFeature',
+    'Break a feature down into tasks',
+    { feature: z.string().describe('The feature to plan'), project },
+    async args => userMessage(await planFeaturePrompt(store, args))
+  );
+
+  server.prompt(
+    'standup',
+    'Write a standup update from completed and in-progress work; covers the last day by default',
+    { project, from, to },
+    async args => userMessage(await standupPrompt(store, args))
+  );
+
+  server.prompt(
+    'triageStale',
+    'Go through pending tasks that have not changed in a while',
+    { project, days: z.string().optional().describe('How many days without a change makes a task stale; defaults to 14') },
+    async args => userMessage(await triagePrompt(store, args))
+  );
+
+  server.prompt(
+    'retrospective',
+    'Run a retrospective over completed and cancelled work; covers the last two weeks by default',
+    { project, from, to },
+    async args => userMessage(await retrospectivePrompt(store, args))
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { queryTodoList } from './todo-query.js';
+import { Todo } from './todo-store.js';
+
+const makeTodo = (id: string, createdAt: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  content: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides
+});
+
+const todos = [
+  makeTodo('a', '2025-01-01T00:00:00.000Z', { priority: 'high', tags: ['api'] }),
+  makeTodo('b', '2025-01-02T00:00:00.000Z', { status: 'completed', dueAt: '2025-02-01T00:00:00.000Z' }),
+  makeTodo('c', '2025-01-03T00:00:00.000Z', { priority: 'low', tags: ['web'], dueAt: '2025-01-15T00:00:00.000Z' }),
+  makeTodo('d', '2025-01-04T00:00:00.000Z', { status: 'in_progress', priority: 'high' })
+];
+
+const ids = (page: { items: Todo[] }) => page.items.map(todo => todo.id);
+
+describe('queryTodoList', () => {
+  it('should combine conditions', () => {
+    expect(ids(queryTodoList(todos, {
+      where: {
+        or: [
+          { field: 'status', op: 'in', value: ['completed', 'in_progress'] },
+          { and: [{ field: 'tags', op: 'contains', value: 'web' }, { not: { field: 'priority', op: 'eq', value: 'high' } }] }
+        ]
+      }
+    }))).toEqual(['b', 'c', 'd']);
+
+    expect(ids(queryTodoList(todos, {
+      where: { and: [{ field: 'createdAt', op: 'gte', value: '2025-01-02T00:00:00Z' }, { field: 'createdAt', op: 'lt', value: '2025-01-04T00:00:00Z' }] }
+    }))).toEqual(['b', 'c']);
+
+    expect(() => queryTodoList(todos, { where: { field: 'status', op: 'lt', value: 'done' } })).toThrow('only applies to date fields');
+  });
+
+  it('should sort with missing values last', () => {
+    expect(ids(queryTodoList(todos, { sortBy: 'priority', order: 'desc' }))).toEqual(['a', 'd', 'b', 'c']);
+    expect(ids(queryTodoList(todos, { sortBy: 'dueAt' }))).toEqual(['c', 'b', 'a', 'd']);
+    expect(ids(queryTodoList(todos, { sortBy: 'dueAt', order: 'desc' }))).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('should page through results with cursors', () => {
+    const first = queryTodoList(todos, { limit: 3 });
+    expect(ids(first)).toEqual(['a', 'b', 'c']);
+    expect(first.total).toBe(4);
+
+    // Removing a todo already seen doesn't shift the next page
+    const second = queryTodoList(todos.slice(1), { limit: 3, cursor: first.nextCursor as string });
+    expect(ids(second)).toEqual(['d']);
+    expect(second.nextCursor).toBeNull();
+
+    expect(() => queryTodoList(todos, { sortBy: 'priority', cursor: first.nextCursor as string })).toThrow('different sortBy');
+    expect(() => queryTodoList(todos, { cursor: 'nonsense' })).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,202 @@
+import type { Todo } from './todo-store.js';
+
+export const CONDITION_FIELDS = [
+  'id', 'content', 'description', 'acceptanceCriteria', 'status', 'priority', 'assignee', 'claimedBy', 'claimExpiresAt', 'project',
+  'conversation', 'workspace', 'parentId', 'dependsOn', 'tags', 'recurrence', 'seriesId', 'dueAt', 'remindAt', 'createdAt', 'updatedAt'
+] as const;
+export type ConditionField = typeof CONDITION_FIELDS[number];
+
+export const CONDITION_OPERATORS = ['eq', 'ne', 'in', 'nin', 'lt', 'lte', 'gt', 'gte', 'contains', 'exists'] as const;
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export const SORT_FIELDS = ['createdAt', 'updatedAt', 'dueAt', 'priority', 'status', 'content'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+// A comparison against one field, or a boolean combination of other conditions
+export type QueryCondition =
+  | { field: ConditionField; op: ConditionOperator; value?: unknown }
+  | { and: QueryCondition[] }
+  | { or: QueryCondition[] }
+  | { not: QueryCondition };
+
+export interface TodoQueryOptions {
+  where?: QueryCondition;
+  sortBy?: SortField;
+  order?: SortOrder;
+  limit?: number;
+  // Returned as nextCursor by the previous page
+  cursor?: string;
+}
+
+export interface TodoPage {
+  items: Todo[];
+  // Number of matching todos across every page
+  total: number;
+  nextCursor: string | null;
+}
+
+const DATE_FIELDS = new Set<ConditionField>(['dueAt', 'remindAt', 'claimExpiresAt', 'createdAt', 'updatedAt']);
+const ARRAY_FIELDS = new Set<ConditionField>(['dependsOn', 'tags']);
+const PRIORITY_RANK = { low: 0, medium: 1, high: 2 };
+const STATUS_RANK: Record<string, number> = { pending: 0, in_progress: 1, completed: 2, cancelled: 3 };
+
+// Check that a condition only uses known fields and operators before it is run against any todo
+export function validateCondition(condition: QueryCondition): void {
+  if ('and' in condition || 'or' in condition) {
+    const conditions = 'and' in condition ? condition.and : condition.or;
+    if (!Array.isArray(conditions)) {
+      throw new Error('and/or conditions must be lists');
+    }
+    conditions.forEach(validateCondition);
+    return;
+  }
+
+  if ('not' in condition) {
+    validateCondition(condition.not);
+    return;
+  }
+
+  const { field, op, value } = condition;
+  if (!(CONDITION_FIELDS as readonly string[]).includes(field)) {
+    throw new Error(`Unknown query field: ${field}`);
+  }
+  if (!(CONDITION_OPERATORS as readonly string[]).includes(op)) {
+    throw new Error(`Unknown query operator: ${op}`);
+  }
+  if ((op === 'in' || op === 'nin') && !Array.isArray(value)) {
+    throw new Error(`Operator ${op} needs a list of values`);
+  }
+  if (['lt', 'lte', 'gt', 'gte'].includes(op)) {
+    if (!DATE_FIELDS.has(field)) {
+      throw new Error(`Operator ${op} only applies to date fields, not ${field}`);
+    }
+    if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+      throw new Error(`Invalid ${field} timestamp: ${String(value)}`);
+    }
+  }
+}
+
+export function matchesCondition(todo: Todo, condition: QueryCondition): boolean {
+  if ('and' in condition) return condition.and.every(inner => matchesCondition(todo, inner));
+  if ('or' in condition) return condition.or.some(inner => matchesCondition(todo, inner));
+  if ('not' in condition) return !matchesCondition(todo, condition.not);
+
+  const { field, op, value } = condition;
+  const actual = todo[field];
+
+  // List fields match when any of their entries does
+  if (ARRAY_FIELDS.has(field)) {
+    const entries = (actual as string[] | undefined) || [];
+    switch (op) {
+      case 'exists': return (entries.length > 0) === (value ?? true);
+      case 'contains': case 'eq': return entries.includes(value as string);
+      case 'ne': return !entries.includes(value as string);
+      case 'in': return entries.some(entry => (value as unknown[]).includes(entry));
+      case 'nin': return !entries.some(entry => (value as unknown[]).includes(entry));
+      default: return false;
+    }
+  }
+
+  switch (op) {
+    case 'exists': return (actual !== undefined) === (value ?? true);
+    case 'eq': return actual === value;
+    case 'ne': return actual !== value;
+    case 'in': return (value as unknown[]).includes(actual);
+    case 'nin': return !(value as unknown[]).includes(actual);
+    case 'contains':
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(value).toLowerCase());
+    default: {
+      // Date comparisons; todos without the date never match
+      if (actual === undefined) {
+        return false;
+      }
+      const difference = new Date(actual as string).getTime() - new Date(value as string).getTime();
+      return op === 'lt' ? difference < 0 : op === 'lte' ? difference <= 0 : op === 'gt' ? difference > 0 : difference >= 0;
+    }
+  }
+}
+
+// The value a todo is sorted by. Priorities sort by rank rather than name, and statuses by the
+// built-in status they behave like, then by name.
+function sortValue(todo: Todo, sortBy: SortField, statusCategory: (todo: Todo) => string): string | number | null {
+  switch (sortBy) {
+    case 'priority': return PRIORITY_RANK[todo.priority] ?? null;
+    case 'status': return `${STATUS_RANK[statusCategory(todo)] ?? STATUS_RANK.pending}:${todo.status}`;
+    case 'content': return todo.content.toLowerCase();
+    default: return todo[sortBy] ? new Date(todo[sortBy] as string).getTime() : null;
+  }
+}
+
+interface SortKey {
+  value: string | number | null;
+  id: string;
+}
+
+// Todos without a value sort last in either order, and IDs break ties so every position is unique
+function compareKeys(a: SortKey, b: SortKey, order: SortOrder): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    return (a.value < b.value ? -1 : 1) * (order === 'desc' ? -1 : 1);
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Cursors record the sort key of the last todo on a page, so pages stay stable as todos are added or removed
+function encodeCursor(sortBy: SortField, order: SortOrder, key: SortKey): string {
+  return Buffer.from(JSON.stringify({ sortBy, order, ...key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sortBy: SortField, order: SortOrder): SortKey {
+  let decoded: { sortBy?: string; order?: string; value?: string | number | null; id?: string };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof decoded?.id !== 'string' || decoded.value === undefined) {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.sortBy !== sortBy || decoded.order !== order) {
+    throw new Error('Cursor was created with a different sortBy or order');
+  }
+
+  return { value: decoded.value, id: decoded.id };
+}
+
+// Filter, sort and page a list of todos
+export function queryTodoList(
+  todos: Todo[],
+  options: TodoQueryOptions = {},
+  statusCategory: (todo: Todo) => string = todo => todo.status
+): TodoPage {
+  const sortBy = options.sortBy || 'createdAt';
+  const order = options.order || 'asc';
+
+  if (options.where) {
+    validateCondition(options.where);
+  }
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+    throw new Error('limit must be a positive whole number');
+  }
+
+  const where = options.where;
+  const keyed = todos
+    .filter(todo => !where || matchesCondition(todo, where))
+    .map(todo => ({ todo, key: { value: sortValue(todo, sortBy, statusCategory), id: todo.id } }))
+    .sort((a, b) => compareKeys(a.key, b.key, order));
+
+  const after = options.cursor ? decodeCursor(options.cursor, sortBy, order) : null;
+  const remaining = after ? keyed.filter(entry => compareKeys(entry.key, after, order) > 0) : keyed;
+  const page = options.limit ? remaining.slice(0, options.limit) : remaining;
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(entry => entry.todo),
+    total: keyed.length,
+    nextCursor: last && page.length < remaining.length ? encodeCursor(sortBy, order, last.key) : null
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseRecurrence, nextOccurrence } from './todo-recurrence.js';
+
+const next = (rule: string, anchor: string, now = anchor) =>
+  nextOccurrence(parseRecurrence(rule), new Date(anchor), new Date(now))?.toISOString() ?? null;
+
+describe('recurrence', () => {
+  it('should parse the supported RRULE subset', () => {
+    expect(parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=5')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [1, 5],
+      count: 5
+    });
+    expect(parseRecurrence('FREQ=MONTHLY;UNTIL=20251231T000000Z').until?.toISOString()).toBe('2025-12-31T00:00:00.000Z');
+
+    expect(() => parseRecurrence('FREQ=HOURLY')).toThrow('Recurrence needs FREQ');
+    expect(() => parseRecurrence('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported recurrence part BYHOUR');
+    expect(() => parseRecurrence('FREQ=DAILY;BYDAY=MO')).toThrow('BYDAY is only supported with FREQ=WEEKLY');
+    expect(() => parseRecurrence('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid BYDAY value');
+  });
+
+  it('should find the next daily and weekly occurrences', () => {
+    expect(next('FREQ=DAILY', '2025-01-01T09:00:00Z')).toBe('2025-01-02T09:00:00.000Z');
+    // 2025-01-06 is a Monday
+    expect(next('FREQ=WEEKLY', '2025-01-06T09:00:00Z')).toBe('2025-01-13T09:00:00.000Z');
+    expect(next('FREQ=WEEKLY;BYDAY=MO,TH', '2025-01-06T09:00:00Z')).toBe('2025-01-09T09:00:00.000Z');
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-01-09T09:00:00Z')).toBe('2025-01-20T09:00:00.000Z');
+  });
+
+  it('should find the next monthly and yearly occurrences', () => {
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=1', '2025-01-01T00:00:00Z')).toBe('2025-02-01T00:00:00.000Z');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31T00:00:00Z')).toBe('2025-02-28T00:00:00.000Z');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=1,15', '2025-01-01T00:00:00Z')).toBe('2025-01-15T00:00:00.000Z');
+    expect(next('FREQ=YEARLY', '2024-02-29T00:00:00Z')).toBe('2025-02-28T00:00:00.000Z');
+  });
+
+  it('should skip occurrences that are already over and stop at UNTIL', () => {
+    expect(next('FREQ=WEEKLY', '2025-01-06T09:00:00Z', '2025-01-29T12:00:00Z')).toBe('2025-02-03T09:00:00.000Z');
+    expect(next('FREQ=DAILY;UNTIL=20250102T000000Z', '2025-01-01T09:00:00Z')).toBeNull();
+  });
+
+  it('should end series whose months never have the requested day', () => {
+    // Every 12 months from April or February only visits months without a 31st or 30th
+    expect(next('FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=31', '2026-04-10T09:00:00Z')).toBeNull();
+    expect(next('FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=30', '2026-02-10T09:00:00Z')).toBeNull();
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2026-04-10T09:00:00Z')).toBe('2026-05-31T09:00:00.000Z');
+    // Completed years after it was due, a series still finds its next date
+    expect(next('FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=29', '2024-02-10T09:00:00Z', '2030-01-01T00:00:00Z')).toBe('2032-02-29T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,172 @@
+// A parsed subset of an RFC 5545 RRULE: FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL
+export interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  // Days of the week, 0 for Sunday
+  byDay?: number[];
+  // Days of the month; negative days count back from the end of the month
+  byMonthDay?: number[];
+  // Total number of occurrences in the series
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The Gregorian calendar repeats every 400 years, so a month day not found within that many
+// months after a given date is never found
+const CALENDAR_CYCLE_MONTHS = 400 * 12;
+
+// Read a number list such as "1,15,-1", checking every value is a whole number in range
+function parseNumbers(value: string, part: string, min: number, max: number): number[] {
+  return value.split(',').map(item => {
+    const number = Number(item);
+    if (!Number.isInteger(number) || number < min || number > max || number === 0) {
+      throw new Error(`Invalid ${part} value "${item}" in recurrence`);
+    }
+    return number;
+  });
+}
+
+// Parse an RRULE such as "FREQ=WEEKLY;BYDAY=MO" or "RRULE:FREQ=MONTHLY;BYMONTHDAY=1"
+export function parseRecurrence(rule: string): Recurrence {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new Error(`Invalid recurrence part "${part}"; expected KEY=VALUE`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Recurrence['freq'];
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Recurrence needs FREQ set to one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const recurrence: Recurrence = { freq, interval: 1 };
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        recurrence.interval = parseNumbers(value, key, 1, 1000)[0];
+        break;
+      case 'COUNT':
+        recurrence.count = parseNumbers(value, key, 1, 100000)[0];
+        break;
+      case 'BYMONTHDAY':
+        recurrence.byMonthDay = parseNumbers(value, key, -31, 31);
+        break;
+      case 'BYDAY':
+        recurrence.byDay = value.split(',').map(day => {
+          if (!WEEKDAYS.includes(day)) {
+            throw new Error(`Invalid BYDAY value "${day}" in recurrence; expected two-letter weekdays such as MO`);
+          }
+          return WEEKDAYS.indexOf(day);
+        });
+        break;
+      case 'UNTIL': {
+        // Accepts the RFC 5545 basic format (20250131T000000Z) as well as ISO 8601
+        const iso = value.replace(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?(Z?)$/, (_m, y, mo, d, h = '23', mi = '59', s = '59') => `${y}-${mo}-${d}T${h}:${mi}:${s}Z`);
+        recurrence.until = new Date(iso);
+        if (isNaN(recurrence.until.getTime())) {
+          throw new Error(`Invalid UNTIL value "${value}" in recurrence`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unsupported recurrence part ${key}; supported are FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL`);
+    }
+  }
+
+  if (recurrence.byDay && freq !== 'WEEKLY') {
+    throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+  }
+  if (recurrence.byMonthDay && freq !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+  }
+
+  return recurrence;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The same time of day as the given date, on another UTC date
+function atTimeOf(time: Date, year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day, time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds()));
+}
+
+// Start of the Monday-based UTC week a date falls in
+function weekStart(date: Date): number {
+  const day = Math.floor(date.getTime() / DAY_MS);
+  return day - ((date.getUTCDay() + 6) % 7);
+}
+
+// The first occurrence strictly after `after`, counting intervals from `anchor`, the occurrence being
+// completed. Times of day are kept from the anchor; everything is worked out in UTC. Returns null
+// when no month the series visits has the requested day, such as BYMONTHDAY=31 every 12 months from April.
+function nextAfter(recurrence: Recurrence, anchor: Date, after: Date): Date | null {
+  const { freq, interval } = recurrence;
+
+  if (freq === 'DAILY') {
+    const periods = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / (interval * DAY_MS)) + 1);
+    return new Date(anchor.getTime() + periods * interval * DAY_MS);
+  }
+
+  if (freq === 'WEEKLY') {
+    const days = recurrence.byDay || [anchor.getUTCDay()];
+    const anchorWeek = weekStart(anchor);
+    for (let candidate = atTimeOf(anchor, after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate()); ; candidate = new Date(candidate.getTime() + DAY_MS)) {
+      const inWeek = ((weekStart(candidate) - anchorWeek) / 7) % interval === 0;
+      if (candidate > after && candidate > anchor && inWeek && days.includes(candidate.getUTCDay())) {
+        return candidate;
+      }
+    }
+  }
+
+  if (freq === 'MONTHLY') {
+    const monthDays = recurrence.byMonthDay || [anchor.getUTCDate()];
+    const monthsToAfter = (after.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + after.getUTCMonth() - anchor.getUTCMonth();
+    for (let offset = 0; offset <= monthsToAfter + CALENDAR_CYCLE_MONTHS; offset += interval) {
+      const year = anchor.getUTCFullYear() + Math.floor((anchor.getUTCMonth() + offset) / 12);
+      const month = (anchor.getUTCMonth() + offset) % 12;
+      const length = daysInMonth(year, month);
+
+      const candidates = monthDays
+        .map(day => day < 0 ? length + day + 1 : day)
+        .filter(day => day >= 1 && day <= length)
+        .sort((a, b) => a - b)
+        .map(day => atTimeOf(anchor, year, month, day));
+
+      const next = candidates.find(candidate => candidate > after && candidate > anchor);
+      if (next) {
+        return next;
+      }
+    }
+    return null;
+  }
+
+  // Yearly occurrences fall on the anchor's date, or the last day of February in other years
+  for (let offset = interval; ; offset += interval) {
+    const year = anchor.getUTCFullYear() + offset;
+    const day = Math.min(anchor.getUTCDate(), daysInMonth(year, anchor.getUTCMonth()));
+    const candidate = atTimeOf(anchor, year, anchor.getUTCMonth(), day);
+    if (candidate > after) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * When the occurrence after `anchor` is due. Occurrences that would already be over by `now`
+ * are skipped so a late completion doesn't leave a backlog of overdue copies. Returns null once
+ * the series has run past UNTIL, or when it has no further dates at all.
+ */
+export function nextOccurrence(recurrence: Recurrence, anchor: Date, now: Date = new Date()): Date | null {
+  const next = nextAfter(recurrence, anchor, anchor > now ? anchor : now);
+  return next && recurrence.until && next > recurrence.until ? null : next;
+}
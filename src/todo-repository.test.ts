@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { TodoRepository, MemoryTodoRepository } from './todo-repository.js';
+import { JsonDirectoryTodoRepository } from './json-todo-repository.js';
+import { AppendLogTodoRepository } from './log-todo-repository.js';
+import { TodoStore, Todo } from './todo-store.js';
+
+const makeTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  content: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('Todo repositories', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-todo-repo-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => TodoRepository]> = [
+    ['memory', () => new MemoryTodoRepository()],
+    ['json', () => new JsonDirectoryTodoRepository(path.join(tmpDir, 'todos'))],
+    ['log', () => new AppendLogTodoRepository(path.join(tmpDir, 'todos.log'))]
+  ];
+
+  describe.each(backends)('%s backend', (_name, createRepository) => {
+    it('should insert, read, update and remove todos', async () => {
+      const repository = createRepository();
+
+      await repository.insert(makeTodo('a', { project: 'alpha' }));
+      await repository.insert(makeTodo('b'));
+
+      expect((await repository.getAll()).map(todo => todo.id).sort()).toEqual(['a', 'b']);
+      expect(await repository.getById('a')).toMatchObject({ id: 'a', project: 'alpha' });
+
+      const updated = await repository.update('a', todo => ({ ...todo, status: 'completed' }));
+      expect(updated?.status).toBe('completed');
+      expect((await repository.getById('a'))?.status).toBe('completed');
+
+      expect((await repository.remove('b'))?.id).toBe('b');
+      expect(await repository.getById('b')).toBeNull();
+      expect(await repository.update('b', todo => todo)).toBeNull();
+      expect(await repository.remove('b')).toBeNull();
+    });
+
+    it('should find todos by project, status and conversation', async () => {
+      const repository = createRepository();
+      await repository.insert(makeTodo('a', { project: 'alpha', conversation: 'c1' }));
+      await repository.insert(makeTodo('b', { project: 'alpha', status: 'completed' }));
+      await repository.insert(makeTodo('c', { project: 'beta', conversation: 'c1' }));
+
+      const ids = async (query: Parameters<TodoRepository['find']>[0]) =>
+        (await repository.find(query)).map(todo => todo.id).sort();
+
+      expect(await ids({ project: 'alpha' })).toEqual(['a', 'b']);
+      expect(await ids({ project: 'alpha', status: 'pending' })).toEqual(['a']);
+      expect(await ids({ conversation: 'c1' })).toEqual(['a', 'c']);
+      expect(await ids({ project: 'gamma' })).toEqual([]);
+      expect(await ids({})).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should apply a batch as a whole', async () => {
+      const repository = createRepository();
+      await repository.insert(makeTodo('a'));
+      await repository.insert(makeTodo('b', { project: 'alpha' }));
+
+      await expect(repository.applyBatch({ remove: ['a'], insert: [makeTodo('b')] })).rejects.toThrow('Task already exists: b');
+      expect(await repository.getById('a')).not.toBeNull();
+
+      // A failing check leaves every todo in the batch untouched
+      const check = new Map([['b', (todo: Todo) => {
+        if (todo.project === 'alpha') throw new Error('Task b has changed');
+      }]]);
+      await expect(repository.applyBatch({ check, remove: ['a'], update: new Map([['b', (todo: Todo) => todo]]) })).rejects.toThrow('Task b has changed');
+      expect(await repository.getById('a')).not.toBeNull();
+
+      const result = await repository.applyBatch({
+        remove: ['a', 'missing'],
+        update: new Map([['b', (todo: Todo) => ({ ...todo, project: 'beta' })]]),
+        insert: [makeTodo('c', { project: 'beta' })]
+      });
+
+      expect(result.removed.map(todo => todo.id)).toEqual(['a']);
+      expect(result.updated.map(todo => todo.project)).toEqual(['beta']);
+      expect(await repository.find({ project: 'beta' })).toHaveLength(2);
+    });
+
+    it('should back a TodoStore', async () => {
+      const store = new TodoStore(createRepository());
+      const parent = await store.createTodo({ content: 'Parent' });
+      await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      expect((await store.getTodoTree())?.[0].children).toHaveLength(1);
+    });
+  });
+
+  describe('json backend', () => {
+    let todosDir: string;
+    let repository: JsonDirectoryTodoRepository;
+
+    beforeEach(() => {
+      todosDir = path.join(tmpDir, 'todos');
+      repository = new JsonDirectoryTodoRepository(todosDir);
+    });
+
+    afterEach(async () => {
+      await repository.close();
+    });
+
+    const waitFor = async (check: () => Promise<boolean>, timeoutMs = 2000) => {
+      const deadline = Date.now() + timeoutMs;
+      while (!(await check())) {
+        if (Date.now() > deadline) {
+          throw new Error('Timed out waiting for condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    };
+
+    it('should store todos in per-project files', async () => {
+      await repository.insert(makeTodo('a', { project: 'my project' }));
+      await repository.insert(makeTodo('b'));
+
+      expect((await fs.readdir(todosDir)).sort()).toEqual(['default.json', 'my-project.json']);
+    });
+
+    it('should not lose concurrent writes', async () => {
+      const other = new JsonDirectoryTodoRepository(todosDir);
+      await repository.insert(makeTodo('shared', { project: 'alpha' }));
+
+      await Promise.all([
+        ...Array.from({ length: 10 }, (_, i) => repository.insert(makeTodo(`t${i}`, { project: 'alpha' }))),
+        repository.update('shared', todo => ({ ...todo, priority: 'high' })),
+        other.update('shared', todo => ({ ...todo, tags: ['shared'] }))
+      ]);
+
+      const todos = await repository.getAll();
+      expect(todos).toHaveLength(11);
+      expect(todos.find(todo => todo.id === 'shared')).toMatchObject({ priority: 'high', tags: ['shared'] });
+    });
+
+    it('should quarantine corrupt files instead of overwriting them', async () => {
+      const filePath = path.join(todosDir, 'alpha.json');
+      await fs.writeFile(filePath, '[{"id": "truncated', 'utf8');
+
+      expect(await repository.getAll()).toEqual([]);
+
+      const files = await fs.readdir(todosDir);
+      const quarantined = files.find(file => file.startsWith('alpha.json.corrupt-'));
+      expect(quarantined).toBeDefined();
+      expect(await fs.readFile(path.join(todosDir, quarantined as string), 'utf8')).toBe('[{"id": "truncated');
+      expect(files).not.toContain('alpha.json');
+    });
+
+    it('should move todos to the file of their new project', async () => {
+      const store = new TodoStore(repository);
+      const task = await store.createTodo({ content: 'Move me', project: 'alpha' });
+      await store.createTodo({ content: 'Stay', project: 'alpha' });
+
+      await store.updateTodo(task.id, { project: 'beta' });
+
+      const read = async (file: string) => JSON.parse(await fs.readFile(path.join(todosDir, file), 'utf8'));
+      expect((await read('alpha.json')).map((todo: Todo) => todo.content)).toEqual(['Stay']);
+      expect(await read('beta.json')).toMatchObject([{ id: task.id, project: 'beta' }]);
+
+      await store.updateTodo(task.id, { project: null });
+      expect(await read('default.json')).toMatchObject([{ id: task.id }]);
+      expect(await fs.readdir(todosDir)).not.toContain('beta.json');
+    });
+
+    it('should rename project files', async () => {
+      const store = new TodoStore(repository);
+      await store.createTodo({ content: 'One', project: 'alpha' });
+      await store.createTodo({ content: 'Two', project: 'alpha' });
+
+      await store.renameProject('alpha', 'omega');
+
+      expect((await fs.readdir(todosDir)).sort()).toEqual(['default.json', 'omega.json']);
+      expect(await repository.find({ project: 'omega' })).toHaveLength(2);
+    });
+
+    it('should pick up changes made by other processes', async () => {
+      await repository.insert(makeTodo('a', { project: 'alpha' }));
+      expect(await repository.find({ project: 'alpha' })).toHaveLength(1);
+
+      await fs.writeFile(path.join(todosDir, 'alpha.json'), JSON.stringify([makeTodo('b', { project: 'alpha' })]), 'utf8');
+
+      await waitFor(async () => (await repository.getById('b')) !== null);
+      expect((await repository.find({ project: 'alpha' })).map(todo => todo.id)).toEqual(['b']);
+      expect(await repository.getById('a')).toBeNull();
+    });
+
+    it('should rescan on every call without a watcher', async () => {
+      const unwatched = new JsonDirectoryTodoRepository(todosDir, { watch: false });
+      expect(unwatched.watching).toBe(false);
+
+      await fs.writeFile(path.join(todosDir, 'beta.json'), JSON.stringify([makeTodo('b', { project: 'beta' })]), 'utf8');
+
+      expect((await unwatched.getById('b'))?.project).toBe('beta');
+    });
+
+    it('should not expose cached todos to mutation', async () => {
+      await repository.insert(makeTodo('a'));
+
+      const todo = await repository.getById('a') as Todo;
+      todo.content = 'Changed';
+
+      expect((await repository.getById('a'))?.content).toBe('Task a');
+    });
+
+    it('should write each file once per batch', async () => {
+      await repository.insert(makeTodo('a', { project: 'alpha' }));
+      await repository.insert(makeTodo('b', { project: 'alpha' }));
+      await repository.insert(makeTodo('c'));
+      const writes = vi.spyOn(repository, 'writeTodosFile');
+
+      await repository.applyBatch({
+        update: new Map<string, (todo: Todo) => Todo>([
+          ['a', (todo: Todo) => ({ ...todo, status: 'completed' })],
+          ['b', (todo: Todo) => ({ ...todo, project: undefined })],
+          ['c', (todo: Todo) => ({ ...todo, status: 'completed' })]
+        ]),
+        insert: [makeTodo('d', { project: 'alpha' })]
+      });
+
+      expect(writes.mock.calls.map(([filePath]) => path.basename(filePath)).sort()).toEqual(['alpha.json', 'default.json']);
+      expect((await repository.find({ project: 'alpha' })).map(todo => todo.id).sort()).toEqual(['a', 'd']);
+    });
+
+    it('should break stale locks', async () => {
+      const lockPath = path.join(todosDir, 'default.json.lock');
+      await fs.writeFile(lockPath, '{}', 'utf8');
+      const stale = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath, stale, stale);
+
+      await repository.insert(makeTodo('a'));
+
+      expect(await repository.getAll()).toHaveLength(1);
+      expect((await fs.readdir(todosDir)).filter(file => !file.endsWith('.json'))).toEqual([]);
+    });
+  });
+
+  describe('log backend', () => {
+    let logPath: string;
+    let repository: AppendLogTodoRepository;
+
+    beforeEach(() => {
+      logPath = path.join(tmpDir, 'todos.log');
+      repository = new AppendLogTodoRepository(logPath);
+    });
+
+    it('should append one entry per change', async () => {
+      await repository.insert(makeTodo('a'));
+      await repository.update('a', todo => ({ ...todo, status: 'completed' }));
+      await repository.remove('a');
+
+      const entries = (await fs.readFile(logPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(entries.map(entry => entry.op)).toEqual(['put', 'put', 'delete']);
+    });
+
+    it('should recover from a torn final entry', async () => {
+      await repository.insert(makeTodo('a'));
+      await fs.appendFile(logPath, '{"op":"put","todo":{"id":"b"', 'utf8');
+
+      await repository.insert(makeTodo('c'));
+
+      expect((await repository.getAll()).map(todo => todo.id)).toEqual(['a', 'c']);
+    });
+
+    it('should compact superseded entries', async () => {
+      await repository.insert(makeTodo('a'));
+      await repository.insert(makeTodo('b'));
+      await repository.update('a', todo => ({ ...todo, status: 'completed' }));
+      await repository.remove('b');
+
+      await repository.compact();
+
+      const lines = (await fs.readFile(logPath, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect((await repository.getById('a'))?.status).toBe('completed');
+    });
+  });
+});
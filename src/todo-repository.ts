@@ -0,0 +1,141 @@
+import type { Todo } from './todo-store.js';
+
+/**
+ * Persistence for todos. TodoStore owns the task rules; a repository only stores
+ * todos and makes each change atomic, whether to a single todo or a batch.
+ */
+export interface TodoRepository {
+  getAll(): Promise<Todo[]>;
+  getById(id: string): Promise<Todo | null>;
+  // Get the todos matching every given field exactly
+  find(query: TodoQuery): Promise<Todo[]>;
+  insert(todo: Todo): Promise<void>;
+  // Replace a todo with the result of mutate, applied to its latest stored version
+  update(id: string, mutate: (todo: Todo) => Todo): Promise<Todo | null>;
+  remove(id: string): Promise<Todo | null>;
+  // Apply removals, then updates, then inserts as one change. If any insert clashes with an
+  // existing todo nothing is changed; todos to update or remove that don't exist are skipped.
+  applyBatch(batch: TodoBatch): Promise<TodoBatchResult>;
+  // Release watchers and other resources held by the repository
+  close?(): Promise<void>;
+}
+
+export interface TodoBatch {
+  // Checks by todo ID, run against the latest stored version of each todo the batch updates or
+  // removes before anything is changed. A check that throws aborts the whole batch.
+  check?: Map<string, (todo: Todo) => void>;
+  remove?: string[];
+  // Mutations by todo ID, each applied to the latest stored version of its todo
+  update?: Map<string, (todo: Todo) => Todo>;
+  insert?: Todo[];
+}
+
+export interface TodoBatchResult {
+  removed: Todo[];
+  updated: Todo[];
+  inserted: Todo[];
+}
+
+// Fields repositories can look todos up by
+export interface TodoQuery {
+  project?: string;
+  status?: string;
+  conversation?: string;
+}
+
+export const QUERY_FIELDS = ['project', 'status', 'conversation'] as const;
+
+// Check a todo against a query
+export function matchesQuery(todo: Todo, query: TodoQuery): boolean {
+  return QUERY_FIELDS.every(field => !query[field] || todo[field] === query[field]);
+}
+
+// Keeps todos in memory only; useful for tests and CI
+export class MemoryTodoRepository implements TodoRepository {
+  private todos: Map<string, Todo>;
+
+  constructor(initialTodos: Todo[] = []) {
+    this.todos = new Map(initialTodos.map(todo => [todo.id, structuredClone(todo)]));
+  }
+
+  async getAll(): Promise<Todo[]> {
+    return [...this.todos.values()].map(todo => structuredClone(todo));
+  }
+
+  async getById(id: string): Promise<Todo | null> {
+    const todo = this.todos.get(id);
+    return todo ? structuredClone(todo) : null;
+  }
+
+  async find(query: TodoQuery): Promise<Todo[]> {
+    return (await this.getAll()).filter(todo => matchesQuery(todo, query));
+  }
+
+  async insert(todo: Todo): Promise<void> {
+    if (this.todos.has(todo.id)) {
+      throw new Error(`Task already exists: ${todo.id}`);
+    }
+
+    this.todos.set(todo.id, structuredClone(todo));
+  }
+
+  async update(id: string, mutate: (todo: Todo) => Todo): Promise<Todo | null> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = mutate(structuredClone(existing));
+    this.todos.set(id, structuredClone(updated));
+    return updated;
+  }
+
+  async applyBatch(batch: TodoBatch): Promise<TodoBatchResult> {
+    const removals = new Set(batch.remove);
+    for (const todo of batch.insert || []) {
+      if (this.todos.has(todo.id) && !removals.has(todo.id)) {
+        throw new Error(`Task already exists: ${todo.id}`);
+      }
+    }
+
+    for (const [id, check] of batch.check || []) {
+      const existing = this.todos.get(id);
+      if (existing) {
+        check(structuredClone(existing));
+      }
+    }
+
+    const result: TodoBatchResult = { removed: [], updated: [], inserted: [] };
+
+    for (const id of removals) {
+      const removed = await this.remove(id);
+      if (removed) {
+        result.removed.push(removed);
+      }
+    }
+
+    for (const [id, mutate] of batch.update || []) {
+      const updated = await this.update(id, mutate);
+      if (updated) {
+        result.updated.push(updated);
+      }
+    }
+
+    for (const todo of batch.insert || []) {
+      await this.insert(todo);
+      result.inserted.push(todo);
+    }
+
+    return result;
+  }
+
+  async remove(id: string): Promise<Todo | null> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    this.todos.delete(id);
+    return existing;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCP } from './fluent-mcp.js';
+import { TodoStore } from './todo-store.js';
+import { MemoryTodoRepository } from './todo-repository.js';
+import { registerTodoResources } from './todo-resources.js';
+
+describe('todo resources', () => {
+  let store: TodoStore;
+  let client: Client;
+  let stopNotifications: () => void;
+
+  beforeEach(async () => {
+    store = new TodoStore(new MemoryTodoRepository());
+    const server = createMCP('Todo resources test', '1.0.0');
+    stopNotifications = registerTodoResources(server, store);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    stopNotifications();
+    await client.close();
+  });
+
+  const read = async (uri: string) => {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse(contents[0].text as string);
+  };
+
+  it('should list and read projects, tasks and conversations', async () => {
+    const task = await store.createTodo({ content: 'Write docs', project: 'my app', conversation: 'c1' });
+    await store.createTodo({ content: 'Ship it', project: 'my app', status: 'completed' });
+
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'todos://projects',
+      'todos://project/my%20app',
+      'todos://conversation/c1'
+    ]);
+
+    expect(await read('todos://projects')).toEqual([{ project: 'my app', total: 2, open: 1, statuses: { pending: 1, completed: 1 } }]);
+    expect((await read('todos://project/my%20app')).map((todo: { content: string }) => todo.content)).toEqual(['Write docs', 'Ship it']);
+    expect(await read(`todos://task/${task.id}`)).toMatchObject({ id: task.id, content: 'Write docs' });
+    expect(await read('todos://conversation/c1')).toHaveLength(1);
+    await expect(client.readResource({ uri: 'todos://task/missing' })).rejects.toThrow('Task not found: missing');
+  });
+
+  it('should notify subscribers when a task they read changes', async () => {
+    const task = await store.createTodo({ content: 'Write docs', project: 'app' });
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: `todos://task/${task.id}` });
+    await client.subscribeResource({ uri: 'todos://project/app' });
+    await store.updateTodo(task.id, { status: 'in_progress' });
+    await store.createTodo({ content: 'Elsewhere', project: 'other' });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(updated.sort()).toEqual(['todos://project/app', `todos://task/${task.id}`]);
+  });
+});
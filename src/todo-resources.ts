@@ -0,0 +1,111 @@
+import type { FluentMCP } from './fluent-mcp.js';
+import type { TodoStore, Todo, TodoChange } from './todo-store.js';
+
+export const PROJECTS_URI = 'todos://projects';
+
+export const projectUri = (project: string) => `todos://project/${encodeURIComponent(project)}`;
+export const taskUri = (id: string) => `todos://task/${encodeURIComponent(id)}`;
+export const conversationUri = (conversation: string) => `todos://conversation/${encodeURIComponent(conversation)}`;
+
+function json(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2)
+      }
+    ]
+  };
+}
+
+// Template variables arrive as they appear in the URI
+function variable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+// The resources that show a todo
+function urisOf(todo: Todo): string[] {
+  return [
+    taskUri(todo.id),
+    ...(todo.project ? [PROJECTS_URI, projectUri(todo.project)] : []),
+    ...(todo.conversation ? [conversationUri(todo.conversation)] : [])
+  ];
+}
+
+// Tell subscribed clients which resources a change touched. Creating or removing a task, or
+// moving it between projects or conversations, can also change which resources exist.
+function notifyChange(server: FluentMCP, { versions }: TodoChange): void {
+  const updated = new Set<string>();
+  let listChanged = false;
+
+  for (const [before, after] of versions) {
+    for (const todo of [before, after]) {
+      if (todo) {
+        urisOf(todo).forEach(uri => updated.add(uri));
+      }
+    }
+
+    if (!before || !after || before.project !== after.project || before.conversation !== after.conversation) {
+      listChanged = true;
+    }
+  }
+
+  updated.forEach(uri => server.notifyResourceUpdated(uri));
+  if (listChanged) {
+    server.notifyResourceListChanged();
+  }
+}
+
+/**
+ * Publish the todos as MCP resources, so clients can attach them as context without calling
+ * tools: the project list, each project's tasks, single tasks and each conversation's tasks.
+ * Returns a function that stops the change notifications.
+ */
+export function registerTodoResources(server: FluentMCP, store: TodoStore): () => void {
+  server.mcpResource('projects', PROJECTS_URI, {
+    description: 'Every project with its number of tasks, open tasks and tasks per status',
+    mimeType: 'application/json'
+  }, async uri => json(uri, await store.listProjects()));
+
+  server.mcpResource('project', 'todos://project/{name}', {
+    description: 'The tasks of a project',
+    mimeType: 'application/json',
+    list: async () => ({
+      resources: (await store.listProjects()).map(({ project, total }) => ({
+        uri: projectUri(project),
+        name: `Project ${project}`,
+        description: `${total} task(s)`
+      }))
+    })
+  }, async (uri, variables) => json(uri, await store.filterTodos({ project: variable(variables, 'name') })));
+
+  server.mcpResource('task', 'todos://task/{id}', {
+    description: 'A single task with its notes, checklist and time entries',
+    mimeType: 'application/json'
+  }, async (uri, variables) => {
+    const id = variable(variables, 'id');
+    const todo = await store.getTodoById(id);
+    if (!todo) {
+      throw new Error(`Task not found: ${id}`);
+    }
+    return json(uri, todo);
+  });
+
+  server.mcpResource('conversation', 'todos://conversation/{id}', {
+    description: 'The tasks of a conversation',
+    mimeType: 'application/json',
+    list: async () => {
+      const conversations = new Set((await store.getAllTodos()).map(todo => todo.conversation).filter(Boolean) as string[]);
+      return {
+        resources: [...conversations].sort().map(conversation => ({
+          uri: conversationUri(conversation),
+          name: `Conversation ${conversation}`
+        }))
+      };
+    }
+  }, async (uri, variables) => json(uri, await store.filterTodos({ conversation: variable(variables, 'id') })));
+
+  return store.onChange(change => notifyChange(server, change));
+}
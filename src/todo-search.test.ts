@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { TodoSearchIndex, stem } from './todo-search.js';
+import { Todo } from './todo-store.js';
+
+const makeTodo = (id: string, content: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  content,
+  status: 'pending',
+  priority: 'medium',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const ids = (results: Array<{ todo: Todo }>) => results.map(result => result.todo.id);
+
+describe('TodoSearchIndex', () => {
+  const todos = [
+    makeTodo('auth', 'Refactor the authentication middleware', { tags: ['backend'] }),
+    makeTodo('docs', 'Write docs for the refactored API'),
+    makeTodo('ui', 'Fix login button styling', { tags: ['frontend', 'auth'] })
+  ];
+
+  it('should stem words to a shared term', () => {
+    expect(stem('refactoring')).toBe('refactor');
+    expect(stem('refactored')).toBe('refactor');
+    expect(stem('refactors')).toBe('refactor');
+    expect(stem('running')).toBe('run');
+    expect(stem('classes')).toBe(stem('class'));
+  });
+
+  it('should rank matches across content and tags with snippets', () => {
+    const index = new TodoSearchIndex();
+    index.sync(todos);
+
+    const results = index.search('the auth refactor task');
+    expect(ids(results)[0]).toBe('auth');
+    expect(ids(results)).toEqual(expect.arrayContaining(['docs', 'ui']));
+    expect(results[0].snippet).toBe('**Refactor** the **authentication** middleware');
+    expect(results.find(result => result.todo.id === 'ui')?.fields).toEqual(['tags']);
+    expect(results[0].snippetField).toBe('content');
+  });
+
+  it('should take the snippet from the field that matched best', () => {
+    const index = new TodoSearchIndex();
+    index.sync([
+      makeTodo('notes', 'Follow up with the vendor', {
+        notes: [{ at: '2025-01-01T00:00:00.000Z', text: 'Waiting on the invoice from accounting; invoice is overdue' }]
+      }),
+      makeTodo('tags', 'Fix login button styling', { tags: ['frontend', 'auth'] })
+    ]);
+
+    const [notes] = index.search('invoice');
+    expect(notes.snippetField).toBe('notes');
+    expect(notes.snippet).toBe('Waiting on the **invoice** from accounting; **invoice** is overdue');
+
+    const [tags] = index.search('frontend');
+    expect(tags).toMatchObject({ snippetField: 'tags', snippet: '**frontend** auth' });
+  });
+
+  it('should match phrases word for word and tolerate typos', () => {
+    const index = new TodoSearchIndex();
+    index.sync(todos);
+
+    expect(ids(index.search('"login button"'))).toEqual(['ui']);
+    expect(ids(index.search('"button login"'))).toEqual([]);
+    expect(ids(index.search('midleware'))).toEqual(['auth']);
+  });
+
+  it('should re-index todos whose text changed', () => {
+    const index = new TodoSearchIndex();
+    index.sync(todos);
+    index.sync([makeTodo('auth', 'Rotate API keys'), todos[2]]);
+
+    expect(index.size).toBe(2);
+    expect(ids(index.search('middleware'))).toEqual([]);
+    expect(ids(index.search('rotate'))).toEqual(['auth']);
+  });
+});
@@ -0,0 +1,368 @@
+import type { Todo } from './todo-store.js';
+
+// Text fields that are searched, with how much a match in each counts towards relevance
+const SEARCH_FIELDS: Array<{ field: string; weight: number; text: (todo: Todo) => string }> = [
+  { field: 'content', weight: 2, text: todo => todo.content },
+  { field: 'tags', weight: 1.5, text: todo => (todo.tags || []).join(' ') },
+  { field: 'description', weight: 1, text: todo => todo.description || '' },
+  { field: 'acceptanceCriteria', weight: 1, text: todo => todo.acceptanceCriteria || '' },
+  { field: 'checklist', weight: 1, text: todo => (todo.checklist || []).map(item => item.text).join('\n') },
+  { field: 'notes', weight: 0.75, text: todo => (todo.notes || []).map(note => note.text).join('\n') }
+];
+
+// Words too common to say anything about which task was meant
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'was', 'with'
+]);
+
+// How much each kind of match counts compared to an exact one
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.5;
+const PHRASE_BOOST = 1.5;
+
+const SNIPPET_LENGTH = 120;
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+export interface SearchResult {
+  todo: Todo;
+  score: number;
+  // Fields that matched the query
+  fields: string[];
+  // Part of the best matching field around its first match, with matched words wrapped in **
+  snippet: string;
+  // The field the snippet was taken from
+  snippetField: string;
+}
+
+interface Token {
+  word: string;
+  term: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+interface Posting {
+  field: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Strip common English suffixes so "refactoring", "refactored" and "refactors" share a term
+export function stem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  const rules: Array<[RegExp, string]> = [
+    [/ies$/, 'y'],
+    [/sses$/, 'ss'],
+    [/([^su])s$/, '$1'],
+    [/(ingly|edly|ing|ed)$/, ''],
+    [/ly$/, ''],
+    [/ations?$/, 'ate'],
+    [/ments?$/, '']
+  ];
+
+  for (const [suffix, replacement] of rules) {
+    const stemmed = word.replace(suffix, replacement);
+    if (stemmed === word) {
+      continue;
+    }
+
+    // Keep short words recognisable, e.g. "bed" shouldn't become "b"
+    if (stemmed.length < 3) {
+      return word;
+    }
+    // "running" and "stopped" lose their doubled consonant along with the suffix
+    return /(ing|ed)$/.test(word) ? stemmed.replace(/([^aeiouls])\1$/, '$1') : stemmed;
+  }
+
+  return word;
+}
+
+// Split text into stemmed terms, remembering where each word was
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    const start = match.index as number;
+    tokens.push({ word, term: stem(word), position: position++, start, end: start + match[0].length });
+  }
+
+  return tokens;
+}
+
+// Edit distance between two terms, giving up once it exceeds the maximum
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Typos allowed for a query term of this length
+function allowedTypos(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+// Split a query into loose terms and quoted phrases
+function parseQuery(query: string): { terms: string[]; phrases: string[][] } {
+  const phrases: string[][] = [];
+  const loose = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length > 0) {
+      phrases.push(terms);
+    }
+    return ' ';
+  });
+
+  const tokens = tokenize(loose);
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token.word));
+  const terms = [...new Set([...(meaningful.length > 0 ? meaningful : tokens).map(token => token.term), ...phrases.flat()])];
+
+  return { terms, phrases };
+}
+
+// Wrap the given ranges of the text in ** and cut it down to a window around the first of them
+function highlight(text: string, ranges: Array<[number, number]>): string {
+  if (ranges.length === 0) {
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text;
+  }
+
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const windowStart = Math.max(0, sorted[0][0] - SNIPPET_LENGTH / 3);
+  const start = windowStart > 0 ? text.lastIndexOf(' ', windowStart) + 1 : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  let snippet = '';
+  let cursor = start;
+  for (const [from, to] of sorted) {
+    if (from < cursor || to > end) {
+      continue;
+    }
+    snippet += `${text.slice(cursor, from)}**${text.slice(from, to)}**`;
+    cursor = to;
+  }
+  snippet += text.slice(cursor, end);
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+// The field whose matches count for the most, with the ranges of the text that matched. Ties go
+// to the field searched first, and todos that only matched a phrase elsewhere fall back to content.
+function snippetSource(todo: Todo, postings: Posting[]): { field: string; text: string; ranges: Array<[number, number]> } {
+  let best = { field: 'content', text: todo.content, ranges: [] as Array<[number, number]>, score: 0 };
+
+  for (const { field, weight, text } of SEARCH_FIELDS) {
+    const ranges = [...new Map(postings
+      .filter(posting => posting.field === field)
+      .map(posting => [posting.start, [posting.start, posting.end] as [number, number]])).values()];
+    const score = ranges.length * weight;
+    if (score > best.score) {
+      best = { field, text: text(todo), ranges, score };
+    }
+  }
+
+  return { field: best.field, text: best.text, ranges: best.ranges };
+}
+
+// The searched text of a todo, used to tell whether it needs re-indexing
+function searchedText(todo: Todo): string {
+  return SEARCH_FIELDS.map(({ text }) => text(todo)).join('\n');
+}
+
+/**
+ * Inverted index from stemmed terms to the todos and positions they occur at. Todos are
+ * re-indexed only when their searched text changes, so keeping the index in sync with the
+ * repository is cheap between searches.
+ */
+export class TodoSearchIndex {
+  private postings = new Map<string, Map<string, Posting[]>>();
+  private todos = new Map<string, Todo>();
+  private indexedText = new Map<string, string>();
+
+  get size(): number {
+    return this.todos.size;
+  }
+
+  // Bring the index in line with the given todos, re-indexing only those that changed
+  sync(todos: Todo[]): void {
+    const current = new Set(todos.map(todo => todo.id));
+    for (const id of this.todos.keys()) {
+      if (!current.has(id)) {
+        this.remove(id);
+      }
+    }
+
+    for (const todo of todos) {
+      if (this.indexedText.get(todo.id) !== searchedText(todo)) {
+        this.add(todo);
+      } else {
+        this.todos.set(todo.id, todo);
+      }
+    }
+  }
+
+  add(todo: Todo): void {
+    this.remove(todo.id);
+    this.todos.set(todo.id, todo);
+    this.indexedText.set(todo.id, searchedText(todo));
+
+    for (const { field, text } of SEARCH_FIELDS) {
+      for (const token of tokenize(text(todo))) {
+        const byTodo = this.postings.get(token.term) || new Map<string, Posting[]>();
+        const postings = byTodo.get(todo.id) || [];
+        postings.push({ field, position: token.position, start: token.start, end: token.end });
+        byTodo.set(todo.id, postings);
+        this.postings.set(token.term, byTodo);
+      }
+    }
+  }
+
+  remove(id: string): void {
+    if (!this.todos.delete(id)) {
+      return;
+    }
+    this.indexedText.delete(id);
+
+    for (const [term, byTodo] of this.postings) {
+      byTodo.delete(id);
+      if (byTodo.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  // Indexed terms that a query term matches, with how closely each matches
+  private expand(term: string): Array<[string, number]> {
+    const matches: Array<[string, number]> = [];
+    const typos = allowedTypos(term);
+
+    for (const indexed of this.postings.keys()) {
+      if (indexed === term) {
+        matches.push([indexed, 1]);
+      } else if (term.length >= 3 && indexed.startsWith(term)) {
+        matches.push([indexed, PREFIX_MATCH]);
+      } else if (typos > 0 && editDistance(term, indexed, typos) <= typos) {
+        matches.push([indexed, FUZZY_MATCH]);
+      }
+    }
+
+    return matches;
+  }
+
+  // Whether the phrase's terms appear one after another in a single field of the todo
+  private containsPhrase(id: string, phrase: string[]): Posting[] | null {
+    const first = this.postings.get(phrase[0])?.get(id) || [];
+
+    for (const start of first) {
+      const rest = phrase.slice(1).map((term, offset) =>
+        (this.postings.get(term)?.get(id) || []).find(posting =>
+          posting.field === start.field && posting.position === start.position + offset + 1
+        )
+      );
+
+      if (rest.every(posting => posting)) {
+        return [start, ...(rest as Posting[])];
+      }
+    }
+
+    return null;
+  }
+
+  // Rank todos against a query. Loose terms match exactly, by prefix or with a typo or two,
+  // and quoted phrases must appear word for word. Scores add up the BM25 weight of every term.
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const { terms, phrases } = parseQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const total = this.todos.size;
+    const k1 = 1.2;
+    const scores = new Map<string, { score: number; postings: Posting[] }>();
+
+    for (const term of terms) {
+      // Best match per todo for this query term, so one word isn't counted twice through its variants
+      const best = new Map<string, { score: number; postings: Posting[] }>();
+
+      for (const [indexed, closeness] of this.expand(term)) {
+        const byTodo = this.postings.get(indexed) as Map<string, Posting[]>;
+        const idf = Math.log(1 + (total - byTodo.size + 0.5) / (byTodo.size + 0.5));
+
+        for (const [id, postings] of byTodo) {
+          const frequency = postings.reduce((sum, posting) =>
+            sum + (SEARCH_FIELDS.find(field => field.field === posting.field)?.weight || 1), 0);
+          const score = closeness * idf * (frequency * (k1 + 1)) / (frequency + k1);
+
+          const current = best.get(id);
+          if (!current || score > current.score) {
+            best.set(id, { score, postings });
+          }
+        }
+      }
+
+      for (const [id, match] of best) {
+        const entry = scores.get(id) || { score: 0, postings: [] };
+        entry.score += match.score;
+        entry.postings.push(...match.postings);
+        scores.set(id, entry);
+      }
+    }
+
+    const results: SearchResult[] = [];
+    for (const [id, entry] of scores) {
+      let score = entry.score;
+      let postings = entry.postings;
+
+      if (phrases.length > 0) {
+        const phraseMatches = phrases.map(phrase => this.containsPhrase(id, phrase));
+        if (phraseMatches.some(match => !match)) {
+          continue;
+        }
+        score *= PHRASE_BOOST;
+        postings = [...postings, ...phraseMatches.flat() as Posting[]];
+      }
+
+      const todo = this.todos.get(id) as Todo;
+      const source = snippetSource(todo, postings);
+
+      results.push({
+        todo,
+        score: Math.round(score * 1000) / 1000,
+        fields: [...new Set(postings.map(posting => posting.field))],
+        snippet: highlight(source.text, source.ranges),
+        snippetField: source.field
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || a.todo.id.localeCompare(b.todo.id));
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+}
@@ -1,227 +1,109 @@
 import { createMCP } from './fluent-mcp.js';
 import { z } from 'zod';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
-import { existsSync, mkdirSync } from 'fs';
+import { TodoStore, Todo, TodoUpdates, TodoUpdate, NewTodo, VersionConflictError } from './todo-store.js';
+import { QueryCondition, TodoQueryOptions, CONDITION_FIELDS, CONDITION_OPERATORS, SORT_FIELDS } from './todo-query.js';
+import { Workflows } from './todo-workflow.js';
+import { registerTodoResources } from './todo-resources.js';
+import { registerTodoPrompts } from './todo-prompts.js';
+import { startTodoEventServer } from './todo-events.js';
+import { startTodoDashboard } from './todo-dashboard.js';
+import { createTodoRepository, createTodoHistory, createTodoTrash, loadTodoConfig } from './todo-config.js';
 
-// Constants
-const CLAUDE_DIR = path.join(os.homedir(), '.claude');
-const TODOS_DIR = path.join(CLAUDE_DIR, 'todos');
-const DEFAULT_TODOS_FILE = path.join(TODOS_DIR, 'default.json');
-
-// Define todo interfaces
-interface Todo {
-  id: string;
-  content: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'high' | 'medium' | 'low';
-  project?: string;
-  conversation?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface TodoFilters {
-  status?: string;
-  priority?: string;
-  project?: string;
-  conversation?: string;
-  keyword?: string;
-}
-
-// TodoStore class to handle all todo operations
-class TodoStore {
-  constructor() {
-    this.ensureDirectoriesExist();
-  }
-
-  // Ensure required directories exist
-  ensureDirectoriesExist(): void {
-    if (!existsSync(CLAUDE_DIR)) {
-      mkdirSync(CLAUDE_DIR, { recursive: true });
-    }
-    
-    if (!existsSync(TODOS_DIR)) {
-      mkdirSync(TODOS_DIR, { recursive: true });
-    }
-    
-    if (!existsSync(DEFAULT_TODOS_FILE)) {
-      fs.writeFile(DEFAULT_TODOS_FILE, '[]', 'utf8');
-    }
-  }
-
-  // Get all todo files
-  async getTodoFiles(): Promise<string[]> {
-    const files = await fs.readdir(TODOS_DIR);
-    return files.filter(file => file.endsWith('.json'));
-  }
-
-  // Read todos from a file
-  async readTodosFile(filePath: string): Promise<Todo[]> {
-    try {
-      if (!existsSync(filePath)) {
-        return [];
-      }
-      
-      const data = await fs.readFile(filePath, 'utf8');
-      return JSON.parse(data);
-    } catch (error) {
-      console.error(`Error reading todos file ${filePath}:`, error);
-      return [];
-    }
-  }
+// Initialize the MCP server
+const server = createMCP('Claude Todo API', '1.0.0');
+const config = loadTodoConfig();
+const todoStore = new TodoStore(createTodoRepository(config.storage), {
+  workspace: config.workspace,
+  workflows: new Workflows(config.workflows),
+  history: createTodoHistory(config.storage),
+  trash: createTodoTrash(config.storage)
+});
 
-  // Write todos to a file
-  async writeTodosFile(filePath: string, todos: Todo[]): Promise<void> {
-    try {
-      await fs.writeFile(filePath, JSON.stringify(todos, null, 2), 'utf8');
-    } catch (error) {
-      console.error(`Error writing todos file ${filePath}:`, error);
-      throw error;
-    }
-  }
+// Accepted by every tool that changes tasks, so changes can be traced in their history
+const changeContextSchema = {
+  actor: z.string().optional().describe('Who is making the change, recorded in the task history'),
+  reason: z.string().optional().describe('Why the change is being made, recorded in the task history')
+};
 
-  // Get all todos from all files
-  async getAllTodos(): Promise<Todo[]> {
-    const files = await this.getTodoFiles();
-    const allTodos: Todo[] = [];
-    
-    for (const file of files) {
-      const filePath = path.join(TODOS_DIR, file);
-      const todos = await this.readTodosFile(filePath);
-      allTodos.push(...todos);
-    }
-    
-    return allTodos;
-  }
+// Fields of a new task, shared by createTask and createTasks
+const newTaskFields = {
+  content: z.string().describe('The title of the task'),
+  description: z.string().optional().describe('Background and details of the task'),
+  acceptanceCriteria: z.string().optional().describe('What has to be true for the task to be done'),
+  checklist: z.array(z.string()).optional().describe('Texts of checklist items to start the task with'),
+  estimateMinutes: z.number().positive().optional().describe('How many minutes the task is expected to take'),
+  recurrence: z.string().optional().describe('An RRULE such as FREQ=WEEKLY;BYDAY=MO or FREQ=MONTHLY;BYMONTHDAY=1; completing the task creates the next occurrence'),
+  status: z.string().optional().describe("The status of the task; defaults to the first status of the project's workflow"),
+  priority: z.enum(['high', 'medium', 'low']).default('medium').describe('The priority of the task'),
+  assignee: z.string().optional().describe('Who is responsible for the task'),
+  project: z.string().optional().describe('The project associated with the task'),
+  conversation: z.string().optional().describe('The conversation associated with the task'),
+  parentId: z.string().optional().describe('The ID of the parent task, to create this task as a subtask'),
+  dependsOn: z.array(z.string()).optional().describe('IDs of tasks that must be completed before this one can start'),
+  dueAt: z.string().datetime({ offset: true }).optional().describe('When the task is due, as an ISO 8601 timestamp'),
+  remindAt: z.string().datetime({ offset: true }).optional().describe('When to be reminded about the task, as an ISO 8601 timestamp'),
+  tags: z.array(z.string()).optional().describe('Tags used to group the task'),
+  workspace: z.string().optional().describe('The workspace the task belongs to; defaults to the current workspace')
+};
 
-  // Get a todo by ID
-  async getTodoById(id: string): Promise<Todo | null> {
-    const files = await this.getTodoFiles();
-    
-    for (const file of files) {
-      const filePath = path.join(TODOS_DIR, file);
-      const todos = await this.readTodosFile(filePath);
-      const todo = todos.find(todo => todo.id === id);
-      
-      if (todo) {
-        return todo;
-      }
-    }
-    
-    return null;
-  }
+// Fields that can be changed on a task, shared by updateTask and updateTasks
+const taskUpdateFields = {
+  content: z.string().optional().describe('The title of the task'),
+  description: z.string().nullable().optional().describe('Background and details of the task, or null to clear them'),
+  acceptanceCriteria: z.string().nullable().optional().describe('What has to be true for the task to be done, or null to clear it'),
+  estimateMinutes: z.number().positive().nullable().optional().describe('How many minutes the task is expected to take, or null to clear the estimate'),
+  recurrence: z.string().nullable().optional().describe('An RRULE such as FREQ=WEEKLY;BYDAY=MO, or null to stop the task recurring'),
+  status: z.string().optional().describe("The status of the task; must be reachable from its current status in the project's workflow"),
+  priority: z.enum(['high', 'medium', 'low']).optional().describe('The priority of the task'),
+  assignee: z.string().nullable().optional().describe('Who is responsible for the task, or null to unassign it'),
+  project: z.string().nullable().optional().describe('The project to move the task to, or null to remove it from its project'),
+  conversation: z.string().optional().describe('The conversation associated with the task'),
+  parentId: z.string().nullable().optional().describe('The ID of the parent task, or null to make this a top-level task'),
+  dependsOn: z.array(z.string()).optional().describe('Replace the IDs of tasks this one depends on; pass an empty list to clear them'),
+  dueAt: z.string().datetime({ offset: true }).nullable().optional().describe('When the task is due as an ISO 8601 timestamp, or null to clear it'),
+  remindAt: z.string().datetime({ offset: true }).nullable().optional().describe('When to be reminded as an ISO 8601 timestamp, or null to clear it'),
+  tags: z.array(z.string()).optional().describe('Replace the tags of the task; pass an empty list to clear them')
+};
 
-  // Create a new todo
-  async createTodo(todoData: Partial<Todo>): Promise<Todo> {
-    let filePath = DEFAULT_TODOS_FILE;
-    
-    if (todoData.project) {
-      const sanitizedProject = todoData.project.replace(/[^a-zA-Z0-9]/g, '-');
-      filePath = path.join(TODOS_DIR, `${sanitizedProject}.json`);
-    }
-    
-    const todos = await this.readTodosFile(filePath);
-    
-    const newTodo: Todo = {
-      id: this.generateUUID(),
-      content: todoData.content || '',
-      status: todoData.status || 'pending',
-      priority: todoData.priority || 'medium',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      ...(todoData.project && { project: todoData.project }),
-      ...(todoData.conversation && { conversation: todoData.conversation })
-    } as Todo;
-    
-    todos.push(newTodo);
-    await this.writeTodosFile(filePath, todos);
-    
-    return newTodo;
-  }
+// A field comparison, or an and/or/not combination of other conditions
+const queryConditionSchema: z.ZodType<QueryCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.enum(CONDITION_FIELDS),
+    op: z.enum(CONDITION_OPERATORS),
+    value: z.unknown().optional()
+  }),
+  z.object({ and: z.array(queryConditionSchema) }),
+  z.object({ or: z.array(queryConditionSchema) }),
+  z.object({ not: queryConditionSchema })
+]));
 
-  // Update an existing todo
-  async updateTodo(id: string, updates: Partial<Todo>): Promise<Todo | null> {
-    const files = await this.getTodoFiles();
-    
-    for (const file of files) {
-      const filePath = path.join(TODOS_DIR, file);
-      const todos = await this.readTodosFile(filePath);
-      const index = todos.findIndex(todo => todo.id === id);
-      
-      if (index !== -1) {
-        const updatedTodo = {
-          ...todos[index],
-          ...updates,
-          updatedAt: new Date().toISOString()
-        };
-        
-        todos[index] = updatedTodo;
-        await this.writeTodosFile(filePath, todos);
-        
-        return updatedTodo;
-      }
-    }
-    
-    return null;
-  }
+// Sorting and pagination, shared by getAllTasks and filterTasks
+const pageFields = {
+  sortBy: z.enum(SORT_FIELDS).optional().describe('The field to sort by; defaults to createdAt'),
+  order: z.enum(['asc', 'desc']).optional().describe('The sort order; defaults to asc'),
+  limit: z.number().int().positive().optional().describe('The maximum number of tasks to return'),
+  cursor: z.string().optional().describe('The nextCursor of the previous page, to fetch the page after it')
+};
 
-  // Delete a todo
-  async deleteTodo(id: string, hardDelete = false): Promise<Todo | { id: string, deleted: boolean } | null> {
-    const files = await this.getTodoFiles();
-    
-    for (const file of files) {
-      const filePath = path.join(TODOS_DIR, file);
-      const todos = await this.readTodosFile(filePath);
-      const index = todos.findIndex(todo => todo.id === id);
-      
-      if (index !== -1) {
-        if (hardDelete) {
-          const deletedTodo = todos[index];
-          todos.splice(index, 1);
-          await this.writeTodosFile(filePath, todos);
-          return { id, deleted: true };
-        } else {
-          todos[index].status = 'cancelled';
-          todos[index].updatedAt = new Date().toISOString();
-          await this.writeTodosFile(filePath, todos);
-          return todos[index];
-        }
+// Refers a change back to the caller with the task as it is now, so they can redo it on top of that
+function versionConflict(error: VersionConflictError) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: 'Version conflict',
+          message: error.message,
+          expectedVersion: error.expectedVersion,
+          currentVersion: error.todo.version ?? 0,
+          current: error.todo
+        }, null, 2)
       }
-    }
-    
-    return null;
-  }
-
-  // Filter todos by criteria
-  async filterTodos(filters: TodoFilters): Promise<Todo[]> {
-    const allTodos = await this.getAllTodos();
-    
-    return allTodos.filter(todo => {
-      if (filters.status && todo.status !== filters.status) return false;
-      if (filters.priority && todo.priority !== filters.priority) return false;
-      if (filters.project && todo.project !== filters.project) return false;
-      if (filters.conversation && todo.conversation !== filters.conversation) return false;
-      if (filters.keyword && !todo.content.toLowerCase().includes(filters.keyword.toLowerCase())) return false;
-      return true;
-    });
-  }
-
-  // Generate a UUID
-  generateUUID(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-      const r = Math.random() * 16 | 0;
-      const v = c === 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16);
-    });
-  }
+    ]
+  };
 }
 
-// Initialize the MCP server
-const server = createMCP('Claude Todo API', '1.0.0');
-const todoStore = new TodoStore();
-
 // Initialize the server
 async function initServer() {
   // Add tools for task management
@@ -229,10 +111,13 @@ async function initServer() {
   // Get all tasks
   server.tool(
     'getAllTasks',
-    {},
-    async () => {
+    {
+      allWorkspaces: z.boolean().default(false).describe('Whether to include tasks from every workspace instead of just the current one'),
+      ...pageFields
+    },
+    async ({ allWorkspaces, ...options }: { allWorkspaces: boolean } & TodoQueryOptions) => {
       try {
-        const allTasks = await todoStore.getAllTodos();
+        const page = await todoStore.queryTodos({ allWorkspaces }, options);
         
         return {
           content: [
@@ -240,8 +125,10 @@ async function initServer() {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                data: allTasks,
-                count: allTasks.length
+                data: page.items,
+                count: page.items.length,
+                total: page.total,
+                nextCursor: page.nextCursor
               }, null, 2)
             }
           ]
@@ -322,29 +209,52 @@ async function initServer() {
   server.tool(
     'createTask',
     {
-      content: z.string().describe('The content of the task'),
-      status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).default('pending').describe('The status of the task'),
-      priority: z.enum(['high', 'medium', 'low']).default('medium').describe('The priority of the task'),
-      project: z.string().optional().describe('The project associated with the task'),
-      conversation: z.string().optional().describe('The conversation associated with the task')
+      ...newTaskFields,
+      ...changeContextSchema
     },
-    async ({ content, status, priority, project, conversation }: { 
+    async ({ content, description, acceptanceCriteria, checklist, estimateMinutes, recurrence, status, priority, assignee, project, conversation, parentId, dependsOn, dueAt, remindAt, tags, workspace, actor, reason }: { 
       content: string; 
-      status: 'pending' | 'in_progress' | 'completed' | 'cancelled'; 
+      description?: string;
+      acceptanceCriteria?: string;
+      checklist?: string[];
+      estimateMinutes?: number;
+      recurrence?: string;
+      status?: string; 
       priority: 'high' | 'medium' | 'low'; 
+      assignee?: string;
       project?: string; 
-      conversation?: string 
+      conversation?: string;
+      parentId?: string;
+      dependsOn?: string[];
+      dueAt?: string;
+      remindAt?: string;
+      tags?: string[];
+      workspace?: string;
+      actor?: string;
+      reason?: string;
     }) => {
       try {
         const todoData = {
           content,
+          description,
+          acceptanceCriteria,
+          checklist,
+          estimateMinutes,
+          recurrence,
           status,
           priority,
+          assignee,
           project,
-          conversation
+          conversation,
+          parentId,
+          dependsOn,
+          dueAt,
+          remindAt,
+          tags,
+          workspace
         };
         
-        const newTask = await todoStore.createTodo(todoData);
+        const newTask = await todoStore.createTodo(todoData, { actor, reason });
         
         return {
           content: [
@@ -380,29 +290,50 @@ async function initServer() {
     'updateTask',
     {
       id: z.string().describe('The ID of the task to update'),
-      content: z.string().optional().describe('The content of the task'),
-      status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).optional().describe('The status of the task'),
-      priority: z.enum(['high', 'medium', 'low']).optional().describe('The priority of the task'),
-      project: z.string().optional().describe('The project associated with the task'),
-      conversation: z.string().optional().describe('The conversation associated with the task')
+      ...taskUpdateFields,
+      expectedVersion: z.number().int().nonnegative().optional().describe('Only update the task if it is still at this version'),
+      ...changeContextSchema
     },
-    async ({ id, content, status, priority, project, conversation }: {
+    async ({ id, content, description, acceptanceCriteria, estimateMinutes, recurrence, status, priority, assignee, project, conversation, parentId, dependsOn, dueAt, remindAt, tags, expectedVersion, actor, reason }: {
       id: string;
       content?: string;
-      status?: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+      description?: string | null;
+      acceptanceCriteria?: string | null;
+      estimateMinutes?: number | null;
+      recurrence?: string | null;
+      status?: string;
       priority?: 'high' | 'medium' | 'low';
-      project?: string;
+      assignee?: string | null;
+      project?: string | null;
       conversation?: string;
+      parentId?: string | null;
+      dependsOn?: string[];
+      dueAt?: string | null;
+      remindAt?: string | null;
+      tags?: string[];
+      expectedVersion?: number;
+      actor?: string;
+      reason?: string;
     }) => {
       try {
-        const updates: Partial<Todo> = {};
+        const updates: TodoUpdates = {};
         if (content !== undefined) updates.content = content;
-        if (status !== undefined) updates.status = status as Todo['status'];
+        if (description !== undefined) updates.description = description;
+        if (acceptanceCriteria !== undefined) updates.acceptanceCriteria = acceptanceCriteria;
+        if (estimateMinutes !== undefined) updates.estimateMinutes = estimateMinutes;
+        if (recurrence !== undefined) updates.recurrence = recurrence;
+        if (status !== undefined) updates.status = status;
         if (priority !== undefined) updates.priority = priority as Todo['priority'];
+        if (assignee !== undefined) updates.assignee = assignee;
         if (project !== undefined) updates.project = project;
         if (conversation !== undefined) updates.conversation = conversation;
+        if (parentId !== undefined) updates.parentId = parentId;
+        if (dependsOn !== undefined) updates.dependsOn = dependsOn;
+        if (dueAt !== undefined) updates.dueAt = dueAt;
+        if (remindAt !== undefined) updates.remindAt = remindAt;
+        if (tags !== undefined) updates.tags = tags;
         
-        const updatedTask = await todoStore.updateTodo(id, updates);
+        const updatedTask = await todoStore.updateTodo(id, updates, { actor, reason }, expectedVersion);
         
         if (updatedTask) {
           return {
@@ -431,6 +362,9 @@ async function initServer() {
           ]
         };
       } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflict(error);
+        }
         console.error('Error updating task:', error);
         return {
           content: [
@@ -453,11 +387,13 @@ async function initServer() {
     'deleteTask',
     {
       id: z.string().describe('The ID of the task to delete'),
-      hardDelete: z.boolean().default(false).describe('Whether to permanently delete the task or just mark it as cancelled')
+      hardDelete: z.boolean().default(false).describe('Whether to move the task to the trash or just mark it as cancelled'),
+      expectedVersion: z.number().int().nonnegative().optional().describe('Only delete the task if it is still at this version'),
+      ...changeContextSchema
     },
-    async ({ id, hardDelete }: { id: string; hardDelete: boolean }) => {
+    async ({ id, hardDelete, expectedVersion, actor, reason }: { id: string; hardDelete: boolean; expectedVersion?: number; actor?: string; reason?: string }) => {
       try {
-        const result = await todoStore.deleteTodo(id, hardDelete);
+        const result = await todoStore.deleteTodo(id, hardDelete, { actor, reason }, expectedVersion);
         
         if (result) {
           return {
@@ -486,6 +422,9 @@ async function initServer() {
           ]
         };
       } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflict(error);
+        }
         console.error('Error deleting task:', error);
         return {
           content: [
@@ -503,33 +442,217 @@ async function initServer() {
     }
   );
   
+  // Create several tasks at once; either all of them are created or none are
+  server.tool(
+    'createTasks',
+    {
+      tasks: z.array(z.object({
+        ...newTaskFields,
+        key: z.string().optional().describe('A name other tasks in this call can use in parentId or dependsOn to refer to this task')
+      })).min(1).describe('The tasks to create; a parent referred to by key must come before its subtasks'),
+      ...changeContextSchema
+    },
+    async ({ tasks, actor, reason }: { tasks: NewTodo[]; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.createTodos(tasks, { actor, reason });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: result,
+                count: result.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error creating tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to create tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Update several tasks at once; either every update is applied or none are
+  server.tool(
+    'updateTasks',
+    {
+      tasks: z.array(z.object({
+        id: z.string().describe('The ID of the task to update'),
+        ...taskUpdateFields,
+        expectedVersion: z.number().int().nonnegative().optional().describe('Only update the task if it is still at this version')
+      })).min(1).describe('The updates to apply'),
+      ...changeContextSchema
+    },
+    async ({ tasks, actor, reason }: { tasks: TodoUpdate[]; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.updateTodos(tasks, { actor, reason });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: result,
+                count: result.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflict(error);
+        }
+        console.error('Error updating tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to update tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Delete several tasks at once; either all of them are deleted or none are
+  server.tool(
+    'deleteTasks',
+    {
+      ids: z.array(z.string()).min(1).describe('The IDs of the tasks to delete'),
+      hardDelete: z.boolean().default(false).describe('Whether to move the tasks to the trash or just mark them as cancelled'),
+      ...changeContextSchema
+    },
+    async ({ ids, hardDelete, actor, reason }: { ids: string[]; hardDelete: boolean; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.deleteTodos(ids, hardDelete, { actor, reason });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: result,
+                count: result.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error deleting tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to delete tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
   // Filter tasks
   server.tool(
     'filterTasks',
     {
-      status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).optional().describe('Filter by task status'),
+      status: z.string().optional().describe('Filter by task status'),
       priority: z.enum(['high', 'medium', 'low']).optional().describe('Filter by task priority'),
       project: z.string().optional().describe('Filter by project'),
       conversation: z.string().optional().describe('Filter by conversation'),
-      keyword: z.string().optional().describe('Filter by keyword in content')
+      parentId: z.string().optional().describe('Filter to the direct subtasks of a task'),
+      blocked: z.boolean().optional().describe('Filter by whether the task is waiting on unfinished dependencies'),
+      dueBefore: z.string().datetime({ offset: true }).optional().describe('Only include tasks due before this ISO 8601 timestamp'),
+      dueAfter: z.string().datetime({ offset: true }).optional().describe('Only include tasks due after this ISO 8601 timestamp'),
+      overdue: z.boolean().optional().describe('Filter by whether an open task is past its due date'),
+      dueWithinDays: z.number().nonnegative().optional().describe('Only include open tasks due between now and this many days from now'),
+      tagsAll: z.array(z.string()).optional().describe('Only include tasks that have all of these tags'),
+      tagsAny: z.array(z.string()).optional().describe('Only include tasks that have at least one of these tags'),
+      tagsNone: z.array(z.string()).optional().describe('Exclude tasks that have any of these tags'),
+      checklistIncomplete: z.boolean().optional().describe('Filter by whether the task has checklist items still to do'),
+      assignee: z.string().optional().describe('Filter by assignee'),
+      claimed: z.boolean().optional().describe('Filter by whether an agent currently holds a claim on the task'),
+      claimedBy: z.string().optional().describe('Only include tasks currently claimed by this agent'),
+      claimableBy: z.string().optional().describe('Only include tasks that are unclaimed or claimed by this agent'),
+      keyword: z.string().optional().describe('Filter by keyword in content'),
+      workspace: z.string().optional().describe('Filter by workspace instead of using the current one'),
+      allWorkspaces: z.boolean().optional().describe('Whether to search every workspace instead of just the current one'),
+      where: queryConditionSchema.optional().describe('A condition such as {"field": "status", "op": "in", "value": ["pending"]}, combined with {"and": [...]}, {"or": [...]} or {"not": {...}}. Operators: eq, ne, in, nin, contains, exists, and lt/lte/gt/gte on dueAt, remindAt, claimExpiresAt, createdAt and updatedAt'),
+      ...pageFields
     },
-    async ({ status, priority, project, conversation, keyword }: {
-      status?: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+    async ({ status, priority, project, conversation, parentId, blocked, dueBefore, dueAfter, overdue, dueWithinDays, tagsAll, tagsAny, tagsNone, checklistIncomplete, assignee, claimed, claimedBy, claimableBy, keyword, workspace, allWorkspaces, ...options }: {
+      status?: string;
       priority?: 'high' | 'medium' | 'low';
       project?: string;
       conversation?: string;
+      parentId?: string;
+      blocked?: boolean;
+      dueBefore?: string;
+      dueAfter?: string;
+      overdue?: boolean;
+      dueWithinDays?: number;
+      tagsAll?: string[];
+      tagsAny?: string[];
+      tagsNone?: string[];
+      checklistIncomplete?: boolean;
+      assignee?: string;
+      claimed?: boolean;
+      claimedBy?: string;
+      claimableBy?: string;
       keyword?: string;
-    }) => {
+      workspace?: string;
+      allWorkspaces?: boolean;
+    } & TodoQueryOptions) => {
       try {
         const filters = {
           status,
           priority,
           project,
           conversation,
-          keyword
+          parentId,
+          blocked,
+          dueBefore,
+          dueAfter,
+          overdue,
+          dueWithinDays,
+          tagsAll,
+          tagsAny,
+          tagsNone,
+          checklistIncomplete,
+          assignee,
+          claimed,
+          claimedBy,
+          claimableBy,
+          keyword,
+          workspace,
+          allWorkspaces
         };
         
-        const filteredTasks = await todoStore.filterTodos(filters);
+        const page = await todoStore.queryTodos(filters, options);
         
         return {
           content: [
@@ -537,8 +660,10 @@ async function initServer() {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                data: filteredTasks,
-                count: filteredTasks.length
+                data: page.items,
+                count: page.items.length,
+                total: page.total,
+                nextCursor: page.nextCursor
               }, null, 2)
             }
           ]
@@ -561,7 +686,1447 @@ async function initServer() {
     }
   );
   
-  // Start the server
+  // Search tasks by relevance to a free-text query
+  server.tool(
+    'searchTasks',
+    {
+      query: z.string().min(1).describe('Words to look for; put exact phrases in double quotes'),
+      project: z.string().optional().describe('Only search this project'),
+      workspace: z.string().optional().describe('Search this workspace instead of the current one'),
+      allWorkspaces: z.boolean().optional().describe('Whether to search every workspace instead of just the current one'),
+      limit: z.number().int().positive().default(20).describe('The maximum number of results to return')
+    },
+    async ({ query, ...options }: { query: string; project?: string; workspace?: string; allWorkspaces?: boolean; limit: number }) => {
+      try {
+        const results = await todoStore.searchTodos(query, options);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: results,
+                count: results.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error searching tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to search tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Get tasks as a nested tree of subtasks
+  server.tool(
+    'getTaskTree',
+    {
+      id: z.string().optional().describe('The ID of the task to use as the root; omit to return every top-level task'),
+      project: z.string().optional().describe('Only include top-level tasks from this project')
+    },
+    async ({ id, project }: { id?: string; project?: string }) => {
+      try {
+        const tree = await todoStore.getTodoTree({ rootId: id, project });
+        
+        if (tree) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: tree,
+                  count: tree.length
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting task tree:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get task tree',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Get the next actionable tasks
+  server.tool(
+    'getNextTasks',
+    {
+      project: z.string().optional().describe('Only include tasks from this project'),
+      conversation: z.string().optional().describe('Only include tasks from this conversation'),
+      agent: z.string().optional().describe('Leave out tasks claimed by agents other than this one'),
+      limit: z.number().int().positive().optional().describe('The maximum number of tasks to return')
+    },
+    async ({ project, conversation, agent, limit }: { project?: string; conversation?: string; agent?: string; limit?: number }) => {
+      try {
+        const nextTasks = await todoStore.getNextTodos({ project, conversation, agent, limit });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: nextTasks,
+                count: nextTasks.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting next tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get next tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Claim a task for an agent so parallel agents don't work on the same task
+  server.tool(
+    'claimTask',
+    {
+      id: z.string().describe('The ID of the task to claim'),
+      agent: z.string().describe('The agent claiming the task; claiming a task the agent already holds renews the claim'),
+      leaseMinutes: z.number().positive().optional().describe('How long the claim lasts before other agents can take the task; defaults to 30 minutes'),
+      ...changeContextSchema
+    },
+    async ({ id, agent, leaseMinutes, actor, reason }: { id: string; agent: string; leaseMinutes?: number; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.claimTask(id, agent, leaseMinutes, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error claiming task:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to claim task',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Release an agent's claim on a task
+  server.tool(
+    'releaseTask',
+    {
+      id: z.string().describe('The ID of the task to release'),
+      agent: z.string().describe('The agent holding the claim'),
+      ...changeContextSchema
+    },
+    async ({ id, agent, actor, reason }: { id: string; agent: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.releaseTask(id, agent, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error releasing task:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to release task',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Move tasks to another project
+  server.tool(
+    'moveTasks',
+    {
+      ids: z.array(z.string()).min(1).describe('The IDs of the tasks to move'),
+      project: z.string().optional().describe('The project to move the tasks to; omit to remove them from their project'),
+      ...changeContextSchema
+    },
+    async ({ ids, project, actor, reason }: { ids: string[]; project?: string; actor?: string; reason?: string }) => {
+      try {
+        const movedTasks = await todoStore.moveTodos(ids, project ?? null, { actor, reason });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: movedTasks,
+                count: movedTasks.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error moving tasks:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to move tasks',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Rename a project
+  server.tool(
+    'renameProject',
+    {
+      from: z.string().describe('The current name of the project'),
+      to: z.string().describe('The new name of the project'),
+      ...changeContextSchema
+    },
+    async ({ from, to, actor, reason }: { from: string; to: string; actor?: string; reason?: string }) => {
+      try {
+        const movedTasks = await todoStore.renameProject(from, to, { actor, reason });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: movedTasks,
+                count: movedTasks.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error renaming project:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to rename project',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Append a progress note to a task
+  server.tool(
+    'addNote',
+    {
+      id: z.string().describe('The ID of the task to add the note to'),
+      text: z.string().min(1).describe('The note; notes are timestamped and cannot be edited afterwards'),
+      ...changeContextSchema
+    },
+    async ({ id, text, actor, reason }: { id: string; text: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.addNote(id, text, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error adding note:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to add note',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Add an item to a task's checklist
+  server.tool(
+    'addChecklistItem',
+    {
+      id: z.string().describe('The ID of the task to add the item to'),
+      text: z.string().min(1).describe('What needs doing'),
+      ...changeContextSchema
+    },
+    async ({ id, text, actor, reason }: { id: string; text: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.addChecklistItem(id, text, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error adding checklist item:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to add checklist item',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Tick a checklist item off or back on
+  server.tool(
+    'toggleChecklistItem',
+    {
+      id: z.string().describe('The ID of the task the item belongs to'),
+      itemId: z.string().describe('The ID of the checklist item'),
+      done: z.boolean().optional().describe('Whether the item is done; omit to flip it'),
+      ...changeContextSchema
+    },
+    async ({ id, itemId, done, actor, reason }: { id: string; itemId: string; done?: boolean; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.toggleChecklistItem(id, itemId, done, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error toggling checklist item:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to toggle checklist item',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Skip the current occurrence of a recurring task
+  server.tool(
+    'skipOccurrence',
+    {
+      id: z.string().describe('The ID of the occurrence to skip; it is cancelled and the next one is scheduled'),
+      ...changeContextSchema
+    },
+    async ({ id, actor, reason }: { id: string; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.skipOccurrence(id, { actor, reason });
+        
+        if (result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: result
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error skipping occurrence:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to skip occurrence',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Stop a recurring task from scheduling further occurrences
+  server.tool(
+    'endSeries',
+    {
+      id: z.string().describe('The ID of any task in the series'),
+      ...changeContextSchema
+    },
+    async ({ id, actor, reason }: { id: string; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.endSeries(id, { actor, reason });
+        
+        if (result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: result
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error ending series:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to end series',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Start a timer on a task without changing its status
+  server.tool(
+    'startTimer',
+    {
+      id: z.string().describe('The ID of the task to time'),
+      note: z.string().optional().describe('What the time is being spent on'),
+      ...changeContextSchema
+    },
+    async ({ id, note, actor, reason }: { id: string; note?: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.startTimer(id, note, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error starting timer:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to start timer',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Stop the running timer on a task
+  server.tool(
+    'stopTimer',
+    {
+      id: z.string().describe('The ID of the task to stop timing'),
+      ...changeContextSchema
+    },
+    async ({ id, actor, reason }: { id: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.stopTimer(id, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error stopping timer:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to stop timer',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Record time already spent on a task
+  server.tool(
+    'logTime',
+    {
+      id: z.string().describe('The ID of the task the time was spent on'),
+      minutes: z.number().positive().describe('How many minutes were spent'),
+      endedAt: z.string().datetime({ offset: true }).optional().describe('When the work finished, as an ISO 8601 timestamp; defaults to now'),
+      note: z.string().optional().describe('What the time was spent on'),
+      ...changeContextSchema
+    },
+    async ({ id, minutes, endedAt, note, actor, reason }: { id: string; minutes: number; endedAt?: string; note?: string; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.logTime(id, minutes, { endedAt, note }, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error logging time:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to log time',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Add up tracked time per project, conversation, day and task
+  server.tool(
+    'getTimeReport',
+    {
+      from: z.string().datetime({ offset: true }).optional().describe('Only count time after this ISO 8601 timestamp'),
+      to: z.string().datetime({ offset: true }).optional().describe('Only count time before this ISO 8601 timestamp'),
+      project: z.string().optional().describe('Only count time on tasks in this project'),
+      conversation: z.string().optional().describe('Only count time on tasks from this conversation'),
+      workspace: z.string().optional().describe('Report on this workspace instead of the current one'),
+      allWorkspaces: z.boolean().optional().describe('Whether to report on every workspace instead of just the current one')
+    },
+    async (options: { from?: string; to?: string; project?: string; conversation?: string; workspace?: string; allWorkspaces?: boolean }) => {
+      try {
+        const report = await todoStore.getTimeReport(options);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: report
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting time report:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get time report',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Add tags to a task
+  server.tool(
+    'addTags',
+    {
+      id: z.string().describe('The ID of the task to add tags to'),
+      tags: z.array(z.string()).min(1).describe('The tags to add'),
+      ...changeContextSchema
+    },
+    async ({ id, tags, actor, reason }: { id: string; tags: string[]; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.addTags(id, tags, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error adding tags:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to add tags',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Remove tags from a task
+  server.tool(
+    'removeTags',
+    {
+      id: z.string().describe('The ID of the task to remove tags from'),
+      tags: z.array(z.string()).min(1).describe('The tags to remove'),
+      ...changeContextSchema
+    },
+    async ({ id, tags, actor, reason }: { id: string; tags: string[]; actor?: string; reason?: string }) => {
+      try {
+        const updatedTask = await todoStore.removeTags(id, tags, { actor, reason });
+        
+        if (updatedTask) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: updatedTask
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error removing tags:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to remove tags',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // List tags with usage counts
+  server.tool(
+    'listTags',
+    {
+      project: z.string().optional().describe('Only count tags on tasks from this project'),
+      status: z.string().optional().describe('Only count tags on tasks with this status')
+    },
+    async ({ project, status }: { project?: string; status?: string }) => {
+      try {
+        const tags = await todoStore.listTags({ project, status });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: tags,
+                count: tags.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error listing tags:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to list tags',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Get the change history of a task
+  server.tool(
+    'getTaskHistory',
+    {
+      id: z.string().describe('The ID of the task')
+    },
+    async ({ id }: { id: string }) => {
+      try {
+        const history = await todoStore.getTodoHistory(id);
+        
+        if (history) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: history,
+                  count: history.length
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting task history:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get task history',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Get recent changes across all projects
+  server.tool(
+    'getActivity',
+    {
+      since: z.string().datetime({ offset: true }).optional().describe('Only return changes made at or after this ISO 8601 timestamp'),
+      project: z.string().optional().describe('Only return changes to tasks in this project'),
+      limit: z.number().int().positive().default(50).describe('The maximum number of changes to return, newest first'),
+      allWorkspaces: z.boolean().default(false).describe('Whether to include changes from every workspace instead of just the current one')
+    },
+    async ({ since, project, limit, allWorkspaces }: { since?: string; project?: string; limit: number; allWorkspaces: boolean }) => {
+      try {
+        const activity = await todoStore.getActivity({
+          since: since && new Date(since).toISOString(),
+          project,
+          limit,
+          allWorkspaces
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: activity,
+                count: activity.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting activity:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get activity',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Undo the latest change
+  server.tool(
+    'undoLastChange',
+    {
+      conversation: z.string().optional().describe('Only undo changes made in this conversation'),
+      ...changeContextSchema
+    },
+    async ({ conversation, actor, reason }: { conversation?: string; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.undoLastChange({ conversation, actor, reason });
+        
+        if (result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: result
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Nothing to undo'
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error undoing change:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to undo change',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Redo the latest undone change
+  server.tool(
+    'redo',
+    {
+      conversation: z.string().optional().describe('Only redo changes undone in this conversation'),
+      ...changeContextSchema
+    },
+    async ({ conversation, actor, reason }: { conversation?: string; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.redo({ conversation, actor, reason });
+        
+        if (result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: result
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Nothing to redo'
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error redoing change:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to redo change',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // List the tasks in the trash
+  server.tool(
+    'getTrash',
+    {},
+    async () => {
+      try {
+        const result = await todoStore.getTrash();
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: result,
+                count: result.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting trash:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get trash',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Restore a hard-deleted task from the trash
+  server.tool(
+    'restoreTask',
+    {
+      id: z.string().describe('The ID of the deleted task'),
+      ...changeContextSchema
+    },
+    async ({ id, actor, reason }: { id: string; actor?: string; reason?: string }) => {
+      try {
+        const result = await todoStore.restoreTodo(id, { actor, reason });
+        
+        if (result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  data: result
+                }, null, 2)
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Task not found in trash',
+                id
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error restoring task:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to restore task',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Permanently delete old tasks from the trash
+  server.tool(
+    'emptyTrash',
+    {
+      olderThanDays: z.number().min(0).default(30).describe('Only delete tasks that have been in the trash at least this many days; 0 empties it')
+    },
+    async ({ olderThanDays }: { olderThanDays: number }) => {
+      try {
+        const result = await todoStore.emptyTrash(olderThanDays);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: result,
+                count: result.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error emptying trash:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to empty trash',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Get the statuses and transitions a project's tasks follow
+  server.tool(
+    'getWorkflow',
+    {
+      project: z.string().optional().describe('The project to get the workflow of; omit for the default workflow')
+    },
+    async ({ project }: { project?: string }) => {
+      try {
+        const workflow = todoStore.getWorkflow(project);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: workflow
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error getting workflow:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to get workflow',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // List workspaces
+  server.tool(
+    'listWorkspaces',
+    {},
+    async () => {
+      try {
+        const workspaces = await todoStore.listWorkspaces();
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                data: {
+                  current: todoStore.workspace || null,
+                  workspaces
+                },
+                count: workspaces.length
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error('Error listing workspaces:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Failed to list workspaces',
+                message: (error as Error).message
+              }, null, 2)
+            }
+          ]
+        };
+      }
+    }
+  );
+  
+  // Publish tasks as resources too, for clients that attach them as context
+  registerTodoResources(server, todoStore);
+  
+  // Prompts for the planning, standup, triage and retrospective workflows
+  registerTodoPrompts(server, todoStore);
+  
+  // Stream task changes to dashboards over socket.io when asked to
+  if (config.events) {
+    const io = await startTodoEventServer(todoStore, config.events);
+    const address = io.httpServer.address();
+    if (address && typeof address === 'object') {
+      console.error(`Todo change feed listening on http://${address.address}:${address.port}`);
+    }
+  }
+  
+  // Serve the kanban board when asked to
+  if (config.dashboard) {
+    const address = (await startTodoDashboard(todoStore, config.dashboard)).address();
+    if (address && typeof address === 'object') {
+      console.error(`Todo dashboard at http://${address.address}:${address.port}`);
+    }
+  }
+  
+  // Start the server, over HTTP when several clients should share it
+  if (config.transport.type === 'http') {
+    const { port, host, allowedHosts, allowedOrigins } = config.transport;
+    await server.http({ port, host, allowedHosts, allowedOrigins }).start();
+    const address = server.address()!;
+    console.error(`Todo MCP server listening on http://${address.host}:${address.port}/mcp (SSE at /sse)`);
+    return server;
+  }
+
   return server.stdio().start();
 }
 
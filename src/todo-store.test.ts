@@ -0,0 +1,728 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TodoStore, Todo, TodoFilters, VersionConflictError } from './todo-store.js';
+import { MemoryTodoRepository, TodoBatch } from './todo-repository.js';
+import { Workflows } from './todo-workflow.js';
+
+describe('TodoStore', () => {
+  let store: TodoStore;
+
+  beforeEach(() => {
+    store = new TodoStore(new MemoryTodoRepository());
+  });
+
+  describe('subtasks', () => {
+    it('should create subtasks in the parent project', async () => {
+      const parent = await store.createTodo({ content: 'Ship feature', project: 'alpha' });
+      const child = await store.createTodo({ content: 'Write tests', parentId: parent.id });
+
+      expect(child.parentId).toBe(parent.id);
+      expect(child.project).toBe('alpha');
+    });
+
+    it('should reject unknown parents and cycles', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await expect(store.createTodo({ content: 'Orphan', parentId: 'missing' })).rejects.toThrow('Parent task not found');
+      await expect(store.updateTodo(parent.id, { parentId: child.id })).rejects.toThrow('subtask of itself');
+    });
+
+    it('should not complete a parent while subtasks are open', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await expect(store.updateTodo(parent.id, { status: 'completed' })).rejects.toThrow('still open');
+
+      await store.updateTodo(child.id, { status: 'completed' });
+      const completed = await store.updateTodo(parent.id, { status: 'completed' });
+      expect(completed?.status).toBe('completed');
+    });
+
+    it('should cascade cancellation to open descendants', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+      const grandchild = await store.createTodo({ content: 'Grandchild', parentId: child.id });
+      const done = await store.createTodo({ content: 'Done', parentId: parent.id, status: 'completed' });
+
+      await store.deleteTodo(parent.id);
+
+      expect((await store.getTodoById(child.id))?.status).toBe('cancelled');
+      expect((await store.getTodoById(grandchild.id))?.status).toBe('cancelled');
+      expect((await store.getTodoById(done.id))?.status).toBe('completed');
+    });
+
+    it('should promote subtasks when their parent is hard deleted', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await store.deleteTodo(parent.id, true);
+
+      expect((await store.getTodoById(child.id))?.parentId).toBeUndefined();
+    });
+
+    it('should build nested trees', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+      await store.createTodo({ content: 'Grandchild', parentId: child.id });
+
+      const roots = await store.getTodoTree();
+      expect(roots).toHaveLength(1);
+      expect(roots?.[0].children[0].children[0].content).toBe('Grandchild');
+
+      const subtree = await store.getTodoTree({ rootId: child.id });
+      expect(subtree?.[0].children).toHaveLength(1);
+      expect(await store.getTodoTree({ rootId: 'missing' })).toBeNull();
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should reject unknown dependencies and cycles', async () => {
+      const first = await store.createTodo({ content: 'First' });
+      const second = await store.createTodo({ content: 'Second', dependsOn: [first.id] });
+
+      await expect(store.createTodo({ content: 'Third', dependsOn: ['missing'] })).rejects.toThrow('Dependency task not found');
+      await expect(store.updateTodo(first.id, { dependsOn: [second.id] })).rejects.toThrow('cycle');
+      await expect(store.updateTodo(first.id, { dependsOn: [first.id] })).rejects.toThrow('depend on itself');
+    });
+
+    it('should filter tasks by blocked state', async () => {
+      const first = await store.createTodo({ content: 'First' });
+      const second = await store.createTodo({ content: 'Second', dependsOn: [first.id] });
+
+      expect((await store.filterTodos({ blocked: true })).map(todo => todo.id)).toEqual([second.id]);
+
+      await store.updateTodo(first.id, { status: 'completed' });
+      expect(await store.filterTodos({ blocked: true })).toHaveLength(0);
+    });
+
+    it('should return unblocked pending tasks sorted by priority', async () => {
+      const setup = await store.createTodo({ content: 'Set up', priority: 'low' });
+      const build = await store.createTodo({ content: 'Build', priority: 'high', dependsOn: [setup.id] });
+      const docs = await store.createTodo({ content: 'Docs', priority: 'medium' });
+
+      expect((await store.getNextTodos()).map(todo => todo.id)).toEqual([docs.id, setup.id]);
+
+      await store.updateTodo(setup.id, { status: 'completed' });
+      expect((await store.getNextTodos()).map(todo => todo.id)).toEqual([build.id, docs.id]);
+      expect(await store.getNextTodos({ limit: 1 })).toHaveLength(1);
+    });
+
+    it('should drop hard-deleted tasks from dependency lists', async () => {
+      const first = await store.createTodo({ content: 'First' });
+      const second = await store.createTodo({ content: 'Second', dependsOn: [first.id] });
+
+      await store.deleteTodo(first.id, true);
+
+      expect((await store.getTodoById(second.id))?.dependsOn).toBeUndefined();
+    });
+  });
+
+  describe('due dates', () => {
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+    it('should normalize and clear due timestamps', async () => {
+      const todo = await store.createTodo({ content: 'Release', dueAt: '2030-01-02T03:04:05+01:00' });
+      expect(todo.dueAt).toBe('2030-01-02T02:04:05.000Z');
+
+      const cleared = await store.updateTodo(todo.id, { dueAt: null });
+      expect(cleared?.dueAt).toBeUndefined();
+
+      await expect(store.createTodo({ content: 'Bad', remindAt: 'tomorrow' })).rejects.toThrow('Invalid remindAt timestamp');
+    });
+
+    it('should find overdue and upcoming tasks', async () => {
+      const late = await store.createTodo({ content: 'Late', dueAt: inDays(-1) });
+      const soon = await store.createTodo({ content: 'Soon', dueAt: inDays(3) });
+      const later = await store.createTodo({ content: 'Later', dueAt: inDays(30) });
+      await store.createTodo({ content: 'Done late', dueAt: inDays(-2), status: 'completed' });
+      await store.createTodo({ content: 'Undated' });
+
+      expect((await store.filterTodos({ overdue: true })).map(todo => todo.id)).toEqual([late.id]);
+      expect((await store.filterTodos({ dueWithinDays: 7 })).map(todo => todo.id)).toEqual([soon.id]);
+      expect((await store.filterTodos({ dueAfter: inDays(0), dueBefore: inDays(60) })).map(todo => todo.id)).toEqual([soon.id, later.id]);
+    });
+  });
+
+  describe('tags', () => {
+    it('should normalize, add and remove tags', async () => {
+      const todo = await store.createTodo({ content: 'Tagged', tags: [' Backend ', 'backend', 'API'] });
+      expect(todo.tags).toEqual(['backend', 'api']);
+
+      expect((await store.addTags(todo.id, ['urgent', 'API']))?.tags).toEqual(['backend', 'api', 'urgent']);
+      expect((await store.removeTags(todo.id, ['Backend']))?.tags).toEqual(['api', 'urgent']);
+      expect(await store.addTags('missing', ['x'])).toBeNull();
+    });
+
+    it('should filter by tags and count usage', async () => {
+      const both = await store.createTodo({ content: 'Both', tags: ['backend', 'api'] });
+      const backend = await store.createTodo({ content: 'Backend', tags: ['backend'] });
+      const untagged = await store.createTodo({ content: 'Untagged' });
+
+      expect((await store.filterTodos({ tagsAll: ['backend', 'api'] })).map(todo => todo.id)).toEqual([both.id]);
+      expect((await store.filterTodos({ tagsAny: ['API', 'backend'] })).map(todo => todo.id)).toEqual([both.id, backend.id]);
+      expect((await store.filterTodos({ tagsNone: ['api'] })).map(todo => todo.id)).toEqual([backend.id, untagged.id]);
+
+      expect(await store.listTags()).toEqual([
+        { tag: 'backend', count: 2 },
+        { tag: 'api', count: 1 }
+      ]);
+    });
+  });
+
+  describe('projects', () => {
+    it('should move tasks between projects', async () => {
+      const first = await store.createTodo({ content: 'First', project: 'alpha' });
+      const second = await store.createTodo({ content: 'Second' });
+
+      const moved = await store.moveTodos([first.id, second.id], 'beta');
+      expect(moved.map(todo => todo.project)).toEqual(['beta', 'beta']);
+      expect(await store.filterTodos({ project: 'beta' })).toHaveLength(2);
+
+      await store.moveTodos([first.id], null);
+      expect((await store.getTodoById(first.id))?.project).toBeUndefined();
+
+      await expect(store.moveTodos([second.id, 'missing'], 'gamma')).rejects.toThrow('Task not found: missing');
+      expect((await store.getTodoById(second.id))?.project).toBe('beta');
+    });
+
+    it('should rename a project', async () => {
+      await store.createTodo({ content: 'One', project: 'alpha' });
+      await store.createTodo({ content: 'Two', project: 'alpha' });
+
+      expect(await store.renameProject('alpha', 'omega')).toHaveLength(2);
+      expect(await store.filterTodos({ project: 'alpha' })).toEqual([]);
+      expect(await store.filterTodos({ project: 'omega' })).toHaveLength(2);
+      await expect(store.renameProject('alpha', 'omega')).rejects.toThrow('Project not found: alpha');
+    });
+  });
+
+  describe('details', () => {
+    it('should keep description and acceptance criteria apart from the title', async () => {
+      const task = await store.createTodo({ content: 'Auth refactor', description: '  Split the middleware  ', acceptanceCriteria: 'All routes covered' });
+
+      expect(task).toMatchObject({ content: 'Auth refactor', description: 'Split the middleware', acceptanceCriteria: 'All routes covered' });
+      expect(await store.updateTodo(task.id, { description: null })).not.toHaveProperty('description');
+    });
+
+    it('should append timestamped notes', async () => {
+      const task = await store.createTodo({ content: 'Task' });
+      await store.addNote(task.id, 'Started on the parser', { actor: 'claude' });
+      const updated = await store.addNote(task.id, 'Parser done');
+
+      expect(updated?.notes?.map(note => note.text)).toEqual(['Started on the parser', 'Parser done']);
+      expect(updated?.notes?.[0]).toMatchObject({ actor: 'claude', at: expect.any(String) });
+      await expect(store.addNote(task.id, '  ')).rejects.toThrow('Note text cannot be empty');
+      expect(await store.addNote('missing', 'Note')).toBeNull();
+    });
+
+    it('should track checklist items and find tasks with open ones', async () => {
+      const task = await store.createTodo({ content: 'Release', checklist: ['Bump version', 'Tag release'] });
+      const done = await store.createTodo({ content: 'Done', checklist: ['Only step'] });
+      await store.createTodo({ content: 'No checklist' });
+
+      await store.toggleChecklistItem(done.id, done.checklist?.[0].id as string);
+      const withExtra = await store.addChecklistItem(task.id, 'Publish');
+      expect(withExtra?.checklist?.map(item => item.text)).toEqual(['Bump version', 'Tag release', 'Publish']);
+
+      expect((await store.filterTodos({ checklistIncomplete: true })).map(todo => todo.id)).toEqual([task.id]);
+      expect(await store.filterTodos({ checklistIncomplete: false })).toHaveLength(2);
+
+      const unticked = await store.toggleChecklistItem(done.id, done.checklist?.[0].id as string, false);
+      expect(unticked?.checklist?.[0]).toEqual({ id: done.checklist?.[0].id, text: 'Only step', done: false });
+      await expect(store.toggleChecklistItem(done.id, 'missing')).rejects.toThrow('Checklist item not found: missing');
+    });
+  });
+
+  describe('time tracking', () => {
+    it('should start and stop timers as the status changes', async () => {
+      const task = await store.createTodo({ content: 'Task', estimateMinutes: 30 });
+
+      const working = await store.updateTodo(task.id, { status: 'in_progress' });
+      expect(working?.timeEntries).toHaveLength(1);
+      expect(working?.timeEntries?.[0].endedAt).toBeUndefined();
+
+      await store.updateTodo(task.id, { content: 'Renamed' });
+      const done = await store.updateTodo(task.id, { status: 'completed' });
+      expect(done?.timeEntries?.[0].endedAt).toBe(done?.updatedAt);
+
+      const resumed = await store.updateTodo(task.id, { status: 'in_progress' });
+      expect(resumed?.timeEntries).toHaveLength(2);
+    });
+
+    it('should start, stop and log time explicitly', async () => {
+      const task = await store.createTodo({ content: 'Task', project: 'billing' });
+
+      await store.startTimer(task.id, 'Investigating');
+      await expect(store.startTimer(task.id)).rejects.toThrow('A timer is already running');
+      expect((await store.stopTimer(task.id))?.status).toBe('pending');
+      await expect(store.stopTimer(task.id)).rejects.toThrow('No timer is running');
+
+      await store.logTime(task.id, 90, { endedAt: '2025-03-01T12:00:00Z', note: 'Pairing' }, { actor: 'sam' });
+      await expect(store.logTime(task.id, 0)).rejects.toThrow('greater than zero');
+
+      const report = await store.getTimeReport({ project: 'billing', from: '2025-03-01T00:00:00Z', to: '2025-03-02T00:00:00Z' });
+      expect(report.byDay).toEqual([{ day: '2025-03-01', minutes: 90 }]);
+      expect((await store.getTodoById(task.id))?.timeEntries?.[1]).toMatchObject({ source: 'manual', note: 'Pairing', actor: 'sam' });
+    });
+  });
+
+  describe('recurring tasks', () => {
+    const future = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+    it('should schedule the next occurrence when one is completed', async () => {
+      const dueAt = future(1);
+      const task = await store.createTodo({
+        content: 'Rotate logs',
+        recurrence: 'FREQ=WEEKLY',
+        dueAt,
+        remindAt: new Date(new Date(dueAt).getTime() - 60 * 60 * 1000).toISOString(),
+        checklist: ['Archive old logs']
+      });
+      await store.toggleChecklistItem(task.id, task.checklist?.[0].id as string);
+
+      await store.updateTodo(task.id, { status: 'completed' });
+
+      const next = (await store.getAllTodos()).find(todo => todo.id !== task.id) as Todo;
+      expect(next).toMatchObject({ content: 'Rotate logs', status: 'pending', seriesId: task.id, occurrence: 2, recurrence: 'FREQ=WEEKLY' });
+      expect(new Date(next.dueAt as string).getTime() - new Date(dueAt).getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(new Date(next.dueAt as string).getTime() - new Date(next.remindAt as string).getTime()).toBe(60 * 60 * 1000);
+      expect(next.checklist?.[0]).toMatchObject({ text: 'Archive old logs', done: false });
+
+      // Undoing the completion also removes the occurrence it scheduled
+      await store.undoLastChange();
+      expect(await store.getAllTodos()).toHaveLength(1);
+    });
+
+    it('should skip occurrences and end series', async () => {
+      const task = await store.createTodo({ content: 'Update deps', recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1', dueAt: future(2) });
+
+      const result = await store.skipOccurrence(task.id);
+      expect(result?.skipped.status).toBe('cancelled');
+      expect(result?.next).toMatchObject({ seriesId: task.id, occurrence: 2 });
+      expect(new Date(result?.next?.dueAt as string).getUTCDate()).toBe(1);
+
+      const ended = await store.endSeries(task.id);
+      expect(ended?.map(todo => todo.id)).toEqual([result?.next?.id]);
+      expect(ended?.[0].recurrence).toBeUndefined();
+
+      await store.updateTodo(result?.next?.id as string, { status: 'completed' });
+      expect(await store.getAllTodos()).toHaveLength(2);
+      await expect(store.skipOccurrence(result?.next?.id as string)).rejects.toThrow('does not recur');
+      await expect(store.skipOccurrence(task.id)).rejects.toThrow('only open occurrences can be skipped');
+    });
+
+    it('should stop after COUNT occurrences and reject invalid rules', async () => {
+      const task = await store.createTodo({ content: 'Twice', recurrence: 'FREQ=DAILY;COUNT=2' });
+      await store.updateTodo(task.id, { status: 'completed' });
+      const second = (await store.getAllTodos()).find(todo => todo.occurrence === 2) as Todo;
+      await store.updateTodo(second.id, { status: 'completed' });
+
+      expect(await store.getAllTodos()).toHaveLength(2);
+      await expect(store.createTodo({ content: 'Bad', recurrence: 'FREQ=SOMETIMES' })).rejects.toThrow('Recurrence needs FREQ');
+    });
+
+    it('should end a series whose months never have the requested day', async () => {
+      const task = await store.createTodo({ content: 'Never', recurrence: 'FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=31', dueAt: '2026-04-10T09:00:00.000Z' });
+
+      await store.updateTodo(task.id, { status: 'completed' });
+      expect(await store.getAllTodos()).toHaveLength(1);
+    });
+  });
+
+  describe('claims', () => {
+    it('should let only one agent claim a task', async () => {
+      const task = await store.createTodo({ content: 'Fix flaky test', assignee: 'team-a' });
+
+      const results = await Promise.allSettled([store.claimTask(task.id, 'agent-1'), store.claimTask(task.id, 'agent-2')]);
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason.message).toMatch(`Task ${task.id} is claimed by agent-1 until`);
+
+      // The holder can renew the claim and keep working; other agents can't change the task
+      const renewed = await store.claimTask(task.id, 'agent-1', 60);
+      expect(new Date(renewed?.claimExpiresAt as string).getTime()).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+      await expect(store.updateTodo(task.id, { status: 'in_progress' }, { actor: 'agent-2' })).rejects.toThrow('is claimed by agent-1');
+      await expect(store.releaseTask(task.id, 'agent-2')).rejects.toThrow('is claimed by agent-1, not agent-2');
+
+      const released = await store.releaseTask(task.id, 'agent-1');
+      expect(released?.claimedBy).toBeUndefined();
+      expect((await store.claimTask(task.id, 'agent-2'))?.claimedBy).toBe('agent-2');
+
+      // Completing the task lets go of the claim
+      const done = await store.updateTodo(task.id, { status: 'completed' }, { actor: 'agent-2' });
+      expect(done?.claimedBy).toBeUndefined();
+      await expect(store.claimTask(task.id, 'agent-1')).rejects.toThrow('only open tasks can be claimed');
+    });
+
+    it('should treat expired claims as unclaimed', async () => {
+      const expired = await store.createTodo({ content: 'Expired' });
+      const mine = await store.createTodo({ content: 'Mine' });
+      const theirs = await store.createTodo({ content: 'Theirs' });
+      const free = await store.createTodo({ content: 'Free' });
+
+      await store.claimTask(expired.id, 'agent-2', 0.001);
+      await store.claimTask(mine.id, 'agent-1');
+      await store.claimTask(theirs.id, 'agent-2');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const contents = async (filters: TodoFilters) => (await store.filterTodos(filters)).map(todo => todo.content).sort();
+      expect(await contents({ claimed: false })).toEqual(['Expired', 'Free']);
+      expect(await contents({ claimedBy: 'agent-1' })).toEqual(['Mine']);
+      expect(await contents({ claimableBy: 'agent-1' })).toEqual(['Expired', 'Free', 'Mine']);
+      expect((await store.getNextTodos({ agent: 'agent-1' })).map(todo => todo.id)).not.toContain(theirs.id);
+
+      expect((await store.claimTask(expired.id, 'agent-1'))?.claimedBy).toBe('agent-1');
+      expect(await store.getTodoById(free.id)).not.toHaveProperty('claimedBy');
+    });
+  });
+
+  describe('history', () => {
+    it('should record every change with old and new values', async () => {
+      const task = await store.createTodo({ content: 'Write docs', project: 'alpha' }, { actor: 'claude', conversation: 'c1' });
+      await store.updateTodo(task.id, { status: 'in_progress', priority: 'high' }, { reason: 'Starting now' });
+      await store.updateTodo(task.id, { status: 'in_progress' });
+      await store.deleteTodo(task.id, false, { reason: 'No longer needed' });
+
+      const history = await store.getTodoHistory(task.id);
+
+      expect(history?.map(entry => entry.action)).toEqual(['created', 'updated', 'deleted']);
+      expect(history?.[0]).toMatchObject({ actor: 'claude', conversation: 'c1', project: 'alpha' });
+      expect(history?.[1]).toMatchObject({
+        reason: 'Starting now',
+        changes: [
+          { field: 'status', from: 'pending', to: 'in_progress' },
+          { field: 'priority', from: 'medium', to: 'high' },
+          // Starting work starts a timer
+          { field: 'timeEntries', from: null, to: [expect.objectContaining({ source: 'timer' })] }
+        ]
+      });
+      expect(history?.[2]).toMatchObject({
+        reason: 'No longer needed',
+        changes: [
+          { field: 'status', from: 'in_progress', to: 'cancelled' },
+          { field: 'timeEntries', from: [expect.not.objectContaining({ endedAt: expect.any(String) })], to: [expect.objectContaining({ endedAt: expect.any(String) })] }
+        ]
+      });
+    });
+
+    it('should explain cascaded changes', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await store.deleteTodo(parent.id, false, { actor: 'claude' });
+
+      expect((await store.getTodoHistory(child.id))?.[1]).toMatchObject({
+        actor: 'claude',
+        reason: `Parent task ${parent.id} was cancelled`
+      });
+    });
+
+    it('should keep history for hard-deleted tasks', async () => {
+      const task = await store.createTodo({ content: 'Temporary' });
+      await store.deleteTodo(task.id, true);
+
+      const history = await store.getTodoHistory(task.id);
+      expect(history?.[1]).toMatchObject({ action: 'deleted' });
+      expect(history?.[1].changes).toContainEqual({ field: 'content', from: 'Temporary', to: null });
+      expect(await store.getTodoHistory('missing')).toBeNull();
+    });
+
+    it('should list recent activity across projects', async () => {
+      const first = await store.createTodo({ content: 'First', project: 'alpha' });
+      await store.createTodo({ content: 'Second', project: 'beta' });
+      await store.updateTodo(first.id, { status: 'completed' });
+
+      const activity = await store.getActivity();
+      expect(activity.map(entry => entry.action)).toEqual(['updated', 'created', 'created']);
+      expect(await store.getActivity({ project: 'beta' })).toHaveLength(1);
+      expect(await store.getActivity({ limit: 2 })).toHaveLength(2);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('should undo and redo an operation with its cascades', async () => {
+      const parent = await store.createTodo({ content: 'Parent', conversation: 'c1' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await store.deleteTodo(parent.id, false, { conversation: 'c1' });
+      expect((await store.getTodoById(child.id))?.status).toBe('cancelled');
+
+      const undone = await store.undoLastChange({ conversation: 'c1' });
+      expect(undone?.tasks.map(todo => todo.status)).toEqual(['pending', 'pending']);
+      expect((await store.getTodoById(child.id))?.status).toBe('pending');
+
+      await store.redo({ conversation: 'c1' });
+      expect((await store.getTodoById(parent.id))?.status).toBe('cancelled');
+      expect((await store.getTodoById(child.id))?.status).toBe('cancelled');
+    });
+
+    it('should keep conversations apart', async () => {
+      const first = await store.createTodo({ content: 'First', conversation: 'c1' });
+      await store.createTodo({ content: 'Second', conversation: 'c2' });
+
+      const undone = await store.undoLastChange({ conversation: 'c1' });
+
+      expect(undone?.removed).toEqual([first.id]);
+      expect((await store.getAllTodos()).map(todo => todo.content)).toEqual(['Second']);
+      expect(await store.undoLastChange({ conversation: 'c1' })).toBeNull();
+      expect(await store.redo({ conversation: 'c2' })).toBeNull();
+    });
+
+    it('should refuse to overwrite newer changes', async () => {
+      const task = await store.createTodo({ content: 'Task' });
+      await store.updateTodo(task.id, { priority: 'high' }, { conversation: 'c1' });
+      await store.undoLastChange({ conversation: 'c1' });
+
+      await store.updateTodo(task.id, { content: 'Renamed' }, { conversation: 'c2' });
+
+      await expect(store.redo({ conversation: 'c1' })).rejects.toThrow(`Task ${task.id} has changed since operation`);
+      expect((await store.getTodoById(task.id))?.content).toBe('Renamed');
+    });
+
+    it('should clear redo when new changes are made', async () => {
+      const task = await store.createTodo({ content: 'Task' });
+      await store.updateTodo(task.id, { priority: 'high' });
+
+      await store.undoLastChange();
+      await store.updateTodo(task.id, { priority: 'low' });
+
+      expect(await store.redo()).toBeNull();
+    });
+  });
+
+  describe('trash', () => {
+    it('should restore hard-deleted tasks', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const task = await store.createTodo({ content: 'Task', parentId: parent.id, tags: ['keep'] });
+      await store.deleteTodo(parent.id, true);
+      await store.deleteTodo(task.id, true);
+
+      expect((await store.getTrash()).map(todo => todo.id).sort()).toEqual([parent.id, task.id].sort());
+
+      const restored = await store.restoreTodo(task.id);
+      expect(restored).toMatchObject({ id: task.id, tags: ['keep'] });
+      expect(restored?.parentId).toBeUndefined();
+      expect(restored?.deletedAt).toBeUndefined();
+      expect(await store.restoreTodo(task.id)).toBeNull();
+      expect((await store.getTodoHistory(task.id))?.map(entry => entry.action)).toEqual(['created', 'updated', 'deleted', 'restored']);
+    });
+
+    it('should undo hard deletes including their cascades', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+      await store.deleteTodo(parent.id, true);
+
+      await store.undoLastChange();
+
+      expect(await store.getTodoById(parent.id)).toMatchObject({ content: 'Parent' });
+      expect((await store.getTodoById(child.id))?.parentId).toBe(parent.id);
+      expect(await store.getTrash()).toEqual([]);
+    });
+
+    it('should empty tasks older than the retention period', async () => {
+      const task = await store.createTodo({ content: 'Old' });
+      await store.deleteTodo(task.id, true);
+
+      expect(await store.emptyTrash(30)).toEqual([]);
+      expect((await store.emptyTrash(0)).map(todo => todo.id)).toEqual([task.id]);
+      expect(await store.getTrash()).toEqual([]);
+    });
+  });
+
+  describe('batches', () => {
+    it('should create tasks that refer to each other by key', async () => {
+      const [parent, child, next] = await store.createTodos([
+        { key: 'parent', content: 'Parent', project: 'alpha' },
+        { key: 'child', content: 'Child', parentId: 'parent' },
+        { content: 'Next', dependsOn: ['child'] }
+      ]);
+
+      expect(child).toMatchObject({ parentId: parent.id, project: 'alpha' });
+      expect(next.dependsOn).toEqual([child.id]);
+      expect(next).not.toHaveProperty('key');
+    });
+
+    it('should create nothing when any task is invalid', async () => {
+      await expect(store.createTodos([
+        { content: 'Valid' },
+        { content: 'Invalid', dependsOn: ['missing'] }
+      ])).rejects.toThrow();
+      await expect(store.createTodos([
+        { key: 'child', content: 'Child', parentId: 'parent' },
+        { key: 'parent', content: 'Parent' }
+      ])).rejects.toThrow('must come before its subtasks');
+
+      expect(await store.getAllTodos()).toEqual([]);
+    });
+
+    it('should validate updates against the state after the whole batch', async () => {
+      const parent = await store.createTodo({ content: 'Parent' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+
+      await expect(store.updateTodos([{ id: parent.id, status: 'completed' }])).rejects.toThrow();
+      await expect(store.updateTodos([
+        { id: child.id, status: 'completed' },
+        { id: 'missing', status: 'completed' }
+      ])).rejects.toThrow('Task not found: missing');
+      expect((await store.getTodoById(child.id))?.status).toBe('pending');
+
+      const updated = await store.updateTodos([
+        { id: parent.id, status: 'completed' },
+        { id: child.id, status: 'completed' }
+      ]);
+      expect(updated.map(todo => todo.status)).toEqual(['completed', 'completed']);
+    });
+
+    it('should hard delete several tasks as one undoable change', async () => {
+      const root = await store.createTodo({ content: 'Root' });
+      const middle = await store.createTodo({ content: 'Middle', parentId: root.id });
+      const leaf = await store.createTodo({ content: 'Leaf', parentId: middle.id });
+      const other = await store.createTodo({ content: 'Other', dependsOn: [middle.id] });
+
+      await store.deleteTodos([middle.id, other.id], true);
+
+      expect((await store.getTodoById(leaf.id))?.parentId).toBe(root.id);
+      expect((await store.getTrash()).map(todo => todo.id).sort()).toEqual([middle.id, other.id].sort());
+
+      await store.undoLastChange();
+      expect((await store.getTodoById(leaf.id))?.parentId).toBe(middle.id);
+      expect(await store.getAllTodos()).toHaveLength(4);
+    });
+  });
+
+  describe('versions', () => {
+    it('should refuse changes based on an older version', async () => {
+      const task = await store.createTodo({ content: 'Draft' });
+      expect(task.version).toBe(1);
+
+      const updated = await store.updateTodo(task.id, { content: 'Draft 2' }, {}, 1);
+      expect(updated?.version).toBe(2);
+
+      const stale = store.updateTodo(task.id, { content: 'Draft 3' }, {}, 1);
+      await expect(stale).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(stale).rejects.toMatchObject({ expectedVersion: 1, todo: { content: 'Draft 2', version: 2 } });
+      await expect(store.deleteTodo(task.id, true, {}, 1)).rejects.toThrow('is at version 2, not the expected version 1');
+      expect(await store.getTodoById(task.id)).toMatchObject({ content: 'Draft 2', version: 2 });
+
+      // Undo moves the content back but never the version
+      await store.undoLastChange();
+      expect(await store.getTodoById(task.id)).toMatchObject({ content: 'Draft', version: 3 });
+      expect(await store.deleteTodo(task.id, true, {}, 3)).toEqual({ id: task.id, deleted: true });
+    });
+
+    it('should check the version again when writing', async () => {
+      // Another process changes the task after the store has read it
+      class RacingRepository extends MemoryTodoRepository {
+        async applyBatch(batch: TodoBatch) {
+          for (const id of batch.check?.keys() || []) {
+            await this.update(id, todo => ({ ...todo, content: 'Theirs', version: (todo.version ?? 0) + 1 }));
+          }
+          return super.applyBatch(batch);
+        }
+      }
+      store = new TodoStore(new RacingRepository());
+      const task = await store.createTodo({ content: 'Ours' });
+
+      await expect(store.updateTodo(task.id, { content: 'Mine' }, {}, 1)).rejects.toBeInstanceOf(VersionConflictError);
+      expect((await store.getTodoById(task.id))?.content).toBe('Theirs');
+    });
+  });
+
+  describe('search', () => {
+    it('should search within a project and pick up edits', async () => {
+      const task = await store.createTodo({ content: 'Migrate the billing database', project: 'billing' });
+      await store.createTodo({ content: 'Migrate the search database', project: 'search' });
+
+      expect((await store.searchTodos('database migration', { project: 'billing' })).map(result => result.todo.id)).toEqual([task.id]);
+
+      await store.updateTodo(task.id, { content: 'Archive old invoices' });
+      expect(await store.searchTodos('billing database', { project: 'billing' })).toEqual([]);
+      expect((await store.searchTodos('invoices'))[0].todo.id).toBe(task.id);
+
+      await store.addNote(task.id, 'Waiting on the finance export');
+      expect((await store.searchTodos('finance'))[0]).toMatchObject({ todo: { id: task.id }, fields: ['notes'] });
+    });
+  });
+
+  describe('workflows', () => {
+    beforeEach(() => {
+      store = new TodoStore(new MemoryTodoRepository(), {
+        workflows: new Workflows({
+          projects: {
+            web: {
+              statuses: { backlog: 'pending', doing: 'in_progress', review: 'in_progress', qa: 'in_progress', done: 'completed', dropped: 'cancelled' },
+              transitions: { backlog: ['doing', 'dropped'], doing: ['review', 'dropped'], review: ['doing', 'qa'], qa: ['done', 'review'], done: [] }
+            }
+          }
+        })
+      });
+    });
+
+    it('should start tasks in the first pending status of their project', async () => {
+      expect((await store.createTodo({ content: 'Task', project: 'web' })).status).toBe('backlog');
+      expect((await store.createTodo({ content: 'Task' })).status).toBe('pending');
+      await expect(store.createTodo({ content: 'Task', project: 'web', status: 'pending' })).rejects.toThrow('Status "pending" is not allowed in project web');
+      expect(() => new Workflows({ default: { statuses: { todo: 'pending', done: 'completed' } } })).toThrow('needs a status that behaves like cancelled');
+    });
+
+    it('should reject illegal transitions', async () => {
+      const task = await store.createTodo({ content: 'Task', project: 'web' });
+
+      await expect(store.updateTodo(task.id, { status: 'done' })).rejects.toThrow('Cannot move a task from "backlog" to "done" in project web; it can move to doing, dropped');
+      await store.updateTodo(task.id, { status: 'doing' });
+      await store.updateTodo(task.id, { status: 'review' });
+      await store.updateTodo(task.id, { status: 'qa' });
+      await store.updateTodo(task.id, { status: 'done' });
+      await expect(store.updateTodo(task.id, { status: 'qa' })).rejects.toThrow('it is a final status');
+    });
+
+    it('should apply built-in rules through the status each one behaves like', async () => {
+      const parent = await store.createTodo({ content: 'Parent', project: 'web' });
+      const child = await store.createTodo({ content: 'Child', parentId: parent.id });
+      const next = await store.createTodo({ content: 'Next', project: 'web', dependsOn: [child.id] });
+
+      expect((await store.getNextTodos()).map(todo => todo.id)).toEqual([child.id]);
+
+      await store.deleteTodo(parent.id);
+      expect((await store.getTodoById(child.id))?.status).toBe('dropped');
+      expect((await store.filterTodos({ blocked: true })).map(todo => todo.id)).toEqual([next.id]);
+    });
+
+    it('should map statuses when tasks move between projects', async () => {
+      const task = await store.createTodo({ content: 'Task', status: 'in_progress' });
+
+      expect((await store.updateTodo(task.id, { project: 'web' }))?.status).toBe('doing');
+      expect((await store.moveTodos([task.id], null))[0].status).toBe('in_progress');
+    });
+  });
+
+  describe('workspaces', () => {
+    it('should scope listings to the current workspace', async () => {
+      const repository = new MemoryTodoRepository();
+      const api = new TodoStore(repository, { workspace: 'api' });
+      const web = new TodoStore(repository, { workspace: 'web' });
+
+      const apiTask = await api.createTodo({ content: 'API task' });
+      const webTask = await web.createTodo({ content: 'Web task' });
+      const legacy = await new TodoStore(repository).createTodo({ content: 'Legacy task' });
+
+      expect(apiTask.workspace).toBe('api');
+      expect((await api.getAllTodos()).map(todo => todo.id)).toEqual([apiTask.id, legacy.id]);
+      expect(await api.getAllTodos({ allWorkspaces: true })).toHaveLength(3);
+      expect((await api.filterTodos({ workspace: 'web' })).map(todo => todo.id)).toEqual([webTask.id]);
+      expect((await api.getNextTodos()).map(todo => todo.id)).toEqual([apiTask.id, legacy.id]);
+    });
+
+    it('should count tasks per workspace', async () => {
+      const repository = new MemoryTodoRepository();
+      await new TodoStore(repository, { workspace: 'api' }).createTodo({ content: 'One' });
+      await new TodoStore(repository, { workspace: 'api' }).createTodo({ content: 'Two' });
+      await new TodoStore(repository).createTodo({ content: 'Legacy' });
+
+      expect(await store.listWorkspaces()).toEqual([]);
+      expect(await new TodoStore(repository).listWorkspaces()).toEqual([
+        { workspace: null, count: 1 },
+        { workspace: 'api', count: 2 }
+      ]);
+    });
+  });
+});
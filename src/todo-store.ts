@@ -0,0 +1,1550 @@
+import { TodoRepository, MemoryTodoRepository } from './todo-repository.js';
+import { createTodoRepository, storageConfigFromEnv } from './todo-config.js';
+import { TodoHistory, MemoryTodoHistory, ChangeContext, TodoHistoryAction, TodoHistoryEntry, ActivityQuery, diffTodos } from './todo-history.js';
+import { OperationJournal, TodoOperation, TodoVersions } from './todo-journal.js';
+import { TodoQueryOptions, TodoPage, queryTodoList } from './todo-query.js';
+import { TodoSearchIndex, SearchResult } from './todo-search.js';
+import { Workflows, ResolvedWorkflow } from './todo-workflow.js';
+import { parseRecurrence, nextOccurrence } from './todo-recurrence.js';
+import { TimeEntry, TimeReport, TimeReportQuery, buildTimeReport, runningEntry, stopEntries } from './todo-time.js';
+
+// Define todo interfaces
+export interface Todo {
+  id: string;
+  // The task's title
+  content: string;
+  description?: string;
+  acceptanceCriteria?: string;
+  // Progress notes, oldest first; only ever appended to
+  notes?: TodoNote[];
+  checklist?: ChecklistItem[];
+  estimateMinutes?: number;
+  // Tracked work, oldest first; at most one entry is running
+  timeEntries?: TimeEntry[];
+  // One of the statuses of the project's workflow
+  status: string;
+  priority: 'high' | 'medium' | 'low';
+  // Who is responsible for the task
+  assignee?: string;
+  // The agent working on the task right now; the claim lapses at claimExpiresAt unless renewed
+  claimedBy?: string;
+  claimExpiresAt?: string;
+  project?: string;
+  conversation?: string;
+  workspace?: string;
+  parentId?: string;
+  dependsOn?: string[];
+  dueAt?: string;
+  remindAt?: string;
+  tags?: string[];
+  // RRULE subset; completing or skipping the task creates the next occurrence
+  recurrence?: string;
+  // The first task of the recurring series this task belongs to, and its place in the series
+  seriesId?: string;
+  occurrence?: number;
+  // Goes up with every change, so a change based on an older copy of the task can be refused.
+  // Tasks saved before versions were tracked have none, which counts as version 0.
+  version?: number;
+  createdAt: string;
+  updatedAt: string;
+  // Set while the task is in the trash
+  deletedAt?: string;
+}
+
+export interface TodoNote {
+  at: string;
+  text: string;
+  actor?: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  doneAt?: string;
+}
+
+// Optional fields that updates can clear by passing null
+const CLEARABLE_FIELDS = [
+  'project', 'parentId', 'dueAt', 'remindAt', 'description', 'acceptanceCriteria', 'estimateMinutes', 'recurrence',
+  'assignee', 'claimedBy', 'claimExpiresAt'
+] as const;
+type ClearableField = typeof CLEARABLE_FIELDS[number];
+
+export type TodoUpdates = Omit<Partial<Todo>, ClearableField> & {
+  [K in ClearableField]?: Todo[K] | null;
+};
+
+// Change context passed down to cascades so they join the caller's undoable operation
+export type MutationContext = ChangeContext & { operation?: TodoOperation };
+
+export type NewTodo = Omit<Partial<Todo>, 'notes' | 'checklist' | 'timeEntries' | 'seriesId' | 'occurrence' | 'claimedBy' | 'claimExpiresAt'> & {
+  // Lets other tasks in the same batch refer to this one as their parent or a dependency
+  key?: string;
+  // Texts of the checklist items to start with
+  checklist?: string[];
+};
+
+export type TodoUpdate = TodoUpdates & {
+  id: string;
+  // Refuse the update unless the task is still at this version
+  expectedVersion?: number;
+};
+
+export interface TodoTreeNode extends Todo {
+  children: TodoTreeNode[];
+}
+
+// Listings cover the store's workspace unless told to look at another one or at all of them
+export interface WorkspaceScope {
+  workspace?: string;
+  allWorkspaces?: boolean;
+}
+
+export interface TodoFilters extends WorkspaceScope {
+  status?: string;
+  priority?: string;
+  project?: string;
+  conversation?: string;
+  parentId?: string;
+  blocked?: boolean;
+  dueBefore?: string;
+  dueAfter?: string;
+  overdue?: boolean;
+  dueWithinDays?: number;
+  tagsAll?: string[];
+  tagsAny?: string[];
+  tagsNone?: string[];
+  // Only tasks that have a checklist with items still to do, or only those that don't
+  checklistIncomplete?: boolean;
+  assignee?: string;
+  // Claims that have expired count as unclaimed
+  claimed?: boolean;
+  claimedBy?: string;
+  // Tasks nobody has claimed, or that this agent has claimed
+  claimableBy?: string;
+  keyword?: string;
+}
+
+export interface TodoStoreOptions {
+  // Workspace new tasks are created in and listings are scoped to
+  workspace?: string;
+  // Where changes are recorded; kept in memory unless given
+  history?: TodoHistory;
+  // Where hard-deleted tasks are kept until the trash is emptied; kept in memory unless given
+  trash?: TodoRepository;
+  // The statuses each project allows; the built-in statuses unless given
+  workflows?: Workflows;
+}
+
+export interface UndoResult {
+  operation: string;
+  // The affected tasks as they are now; tasks that no longer exist are listed under removed
+  tasks: Todo[];
+  removed: string[];
+}
+
+export interface WorkspaceCount {
+  workspace: string | null;
+  count: number;
+}
+
+export interface ProjectSummary {
+  project: string;
+  total: number;
+  // Tasks that are neither completed nor cancelled
+  open: number;
+  statuses: Record<string, number>;
+}
+
+// A recorded change to one or more todos, as before and after pairs
+export interface TodoChange {
+  action: TodoHistoryAction;
+  versions: TodoVersions[];
+  // Who made the change and why, when the caller said
+  actor?: string;
+  reason?: string;
+}
+
+export type TodoChangeListener = (change: TodoChange) => void;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TimeReportOptions extends TimeReportQuery, WorkspaceScope {
+  project?: string;
+  conversation?: string;
+}
+
+export interface SearchTodoOptions extends WorkspaceScope {
+  project?: string;
+  limit?: number;
+}
+
+export interface NextTodoOptions extends WorkspaceScope {
+  project?: string;
+  conversation?: string;
+  // Leave out tasks other agents have claimed
+  agent?: string;
+  limit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a claim lasts unless the agent renews it
+export const DEFAULT_LEASE_MINUTES = 30;
+
+// Sort order used when ranking actionable work
+const PRIORITY_RANK: Record<Todo['priority'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+// A task is open until it has been completed or cancelled
+function isOpen(todo: Todo, workflows: Workflows): boolean {
+  const category = workflows.category(todo.status, todo.project);
+  return category !== 'completed' && category !== 'cancelled';
+}
+
+// Tags are compared case-insensitively, so store them trimmed and lowercased
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Check a todo's tags against the tag filters
+function matchesTagFilters(todo: Todo, filters: TodoFilters): boolean {
+  const tags = new Set(todo.tags || []);
+
+  if (filters.tagsAll && !normalizeTags(filters.tagsAll).every(tag => tags.has(tag))) return false;
+  if (filters.tagsAny && !normalizeTags(filters.tagsAny).some(tag => tags.has(tag))) return false;
+  if (filters.tagsNone && normalizeTags(filters.tagsNone).some(tag => tags.has(tag))) return false;
+
+  return true;
+}
+
+// Parse a timestamp, rejecting anything Date can't understand
+function parseTimestamp(value: string, field: string): number {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${field} timestamp: ${value}`);
+  }
+  return time;
+}
+
+// Normalize a timestamp to ISO 8601
+function normalizeTimestamp(value: string, field: string): string {
+  return new Date(parseTimestamp(value, field)).toISOString();
+}
+
+// Check a todo's due date against the due-date filters; tasks without a due date never match them
+function matchesDueFilters(todo: Todo, filters: TodoFilters, now: number, workflows: Workflows): boolean {
+  const dueAt = todo.dueAt ? new Date(todo.dueAt).getTime() : undefined;
+
+  if (filters.overdue !== undefined) {
+    const overdue = dueAt !== undefined && dueAt < now && isOpen(todo, workflows);
+    if (overdue !== filters.overdue) return false;
+  }
+
+  if (filters.dueBefore && (dueAt === undefined || dueAt >= parseTimestamp(filters.dueBefore, 'dueBefore'))) return false;
+  if (filters.dueAfter && (dueAt === undefined || dueAt <= parseTimestamp(filters.dueAfter, 'dueAfter'))) return false;
+
+  if (filters.dueWithinDays !== undefined) {
+    const windowEnd = now + filters.dueWithinDays * DAY_MS;
+    if (dueAt === undefined || !isOpen(todo, workflows) || dueAt < now || dueAt > windowEnd) return false;
+  }
+
+  return true;
+}
+
+// Estimates are whole or fractional minutes above zero
+function checkEstimate(minutes: number): number {
+  if (!(minutes > 0)) {
+    throw new Error(`estimateMinutes must be greater than zero, got ${minutes}`);
+  }
+  return minutes;
+}
+
+// Whether any item on a todo's checklist is still to do
+function hasOpenChecklistItems(todo: Todo): boolean {
+  return (todo.checklist || []).some(item => !item.done);
+}
+
+// The agent holding a claim on a todo, unless the claim has expired
+function activeClaim(todo: Todo, now: number): string | undefined {
+  return todo.claimedBy && todo.claimExpiresAt && new Date(todo.claimExpiresAt).getTime() > now ? todo.claimedBy : undefined;
+}
+
+// Check a todo's assignee and claim against the claim filters
+function matchesClaimFilters(todo: Todo, filters: TodoFilters, now: number): boolean {
+  const holder = activeClaim(todo, now);
+
+  if (filters.assignee && todo.assignee !== filters.assignee) return false;
+  if (filters.claimed !== undefined && !!holder !== filters.claimed) return false;
+  if (filters.claimedBy && holder !== filters.claimedBy) return false;
+  if (filters.claimableBy && holder && holder !== filters.claimableBy) return false;
+
+  return true;
+}
+
+// A task is blocked while any of its dependencies has not been completed
+function isBlocked(todo: Todo, todosById: Map<string, Todo>, workflows: Workflows): boolean {
+  return (todo.dependsOn || []).some(depId => {
+    const dependency = todosById.get(depId);
+    return !dependency || workflows.category(dependency.status, dependency.project) !== 'completed';
+  });
+}
+
+// Thrown when a change was based on a different version of a task than the stored one
+export class VersionConflictError extends Error {
+  constructor(readonly todo: Todo, readonly expectedVersion: number) {
+    super(`Task ${todo.id} is at version ${todo.version ?? 0}, not the expected version ${expectedVersion}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+// Check a todo is still at the version a change was based on
+function checkVersion(todo: Todo, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && (todo.version ?? 0) !== expectedVersion) {
+    throw new VersionConflictError(todo, expectedVersion);
+  }
+}
+
+// TodoStore class to handle all todo operations
+export class TodoStore {
+  private repository: TodoRepository;
+  private history: TodoHistory;
+  private trash: TodoRepository;
+  private journal = new OperationJournal();
+  private searchIndex = new TodoSearchIndex();
+  private listeners = new Set<TodoChangeListener>();
+  readonly workspace?: string;
+  readonly workflows: Workflows;
+
+  constructor(repository: TodoRepository = createTodoRepository(storageConfigFromEnv()), options: TodoStoreOptions = {}) {
+    this.repository = repository;
+    this.history = options.history || new MemoryTodoHistory();
+    this.trash = options.trash || new MemoryTodoRepository();
+    this.workspace = options.workspace;
+    this.workflows = options.workflows || new Workflows();
+  }
+
+  // Check whether a todo or history entry is visible in a workspace scope.
+  // Tasks created before workspaces existed have none and show up everywhere.
+  inScope(todo: { workspace?: string }, scope: WorkspaceScope = {}): boolean {
+    if (scope.workspace) {
+      return todo.workspace === scope.workspace;
+    }
+
+    if (scope.allWorkspaces || !this.workspace) {
+      return true;
+    }
+
+    return !todo.workspace || todo.workspace === this.workspace;
+  }
+
+  // Get all todos in scope
+  async getAllTodos(scope: WorkspaceScope = {}): Promise<Todo[]> {
+    const allTodos = await this.repository.getAll();
+    return allTodos.filter(todo => this.inScope(todo, scope));
+  }
+
+  // Get a todo by ID
+  async getTodoById(id: string): Promise<Todo | null> {
+    return this.repository.getById(id);
+  }
+
+  // Get the direct children of a todo
+  async getChildren(id: string): Promise<Todo[]> {
+    const allTodos = await this.repository.getAll();
+    return allTodos.filter(todo => todo.parentId === id);
+  }
+
+  // Make sure a parent exists and that attaching to it would not create a cycle.
+  // Batches pass the todos as they will be once the batch is applied.
+  async validateParent(parentId: string, childId?: string, knownTodos?: Todo[]): Promise<Todo> {
+    const allTodos = knownTodos || await this.repository.getAll();
+    const parent = allTodos.find(todo => todo.id === parentId);
+
+    if (!parent) {
+      throw new Error(`Parent task not found: ${parentId}`);
+    }
+
+    // Walk up from the new parent; reaching the child means it would become its own ancestor
+    let current: Todo | undefined = parent;
+    while (childId && current) {
+      if (current.id === childId) {
+        throw new Error(`Task ${childId} cannot be a subtask of itself or its descendants`);
+      }
+      current = current.parentId ? allTodos.find(todo => todo.id === current?.parentId) : undefined;
+    }
+
+    return parent;
+  }
+
+  // Make sure every dependency exists and that depending on them would not create a cycle
+  async validateDependencies(dependsOn: string[], taskId?: string, knownTodos?: Todo[]): Promise<void> {
+    const allTodos = knownTodos || await this.repository.getAll();
+    const todosById = new Map(allTodos.map(todo => [todo.id, todo]));
+
+    for (const depId of dependsOn) {
+      if (depId === taskId) {
+        throw new Error(`Task ${taskId} cannot depend on itself`);
+      }
+
+      if (!todosById.has(depId)) {
+        throw new Error(`Dependency task not found: ${depId}`);
+      }
+    }
+
+    if (!taskId) {
+      return;
+    }
+
+    // Follow the dependency graph from the new dependencies; reaching the task again is a cycle
+    const visited = new Set<string>();
+    const stack = [...dependsOn];
+    while (stack.length > 0) {
+      const currentId = stack.pop() as string;
+      if (currentId === taskId) {
+        throw new Error(`Dependencies of task ${taskId} would create a cycle`);
+      }
+
+      if (!visited.has(currentId)) {
+        visited.add(currentId);
+        stack.push(...(todosById.get(currentId)?.dependsOn || []));
+      }
+    }
+  }
+
+  // Record what changed between each before and after pair. Updates that changed nothing are skipped.
+  async recordChanges(action: TodoHistoryAction, versions: Array<[Todo | null, Todo | null]>, context: MutationContext = {}): Promise<void> {
+    const at = new Date().toISOString();
+    const entries: TodoHistoryEntry[] = [];
+    const changed: TodoVersions[] = [];
+
+    context.operation?.versions.push(...versions);
+
+    for (const [before, after] of versions) {
+      const todo = (after || before) as Todo;
+      const changes = diffTodos(before, after);
+      if (action === 'updated' && changes.length === 0) {
+        continue;
+      }
+
+      changed.push([before, after]);
+      const conversation = context.conversation || todo.conversation;
+      entries.push({
+        taskId: todo.id,
+        action,
+        at,
+        changes,
+        ...(context.actor && { actor: context.actor }),
+        ...(conversation && { conversation }),
+        ...(context.reason && { reason: context.reason }),
+        ...(todo.project && { project: todo.project }),
+        ...(todo.workspace && { workspace: todo.workspace })
+      });
+    }
+
+    await this.history.append(entries);
+
+    if (changed.length > 0) {
+      for (const listener of this.listeners) {
+        listener({
+          action,
+          versions: changed,
+          ...(context.actor && { actor: context.actor }),
+          ...(context.reason && { reason: context.reason })
+        });
+      }
+    }
+  }
+
+  // Call a listener after every recorded change; returns a function that stops the calls
+  onChange(listener: TodoChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Run a mutation as one undoable operation. Cascades pass the operation on in their
+  // context and join it; whatever was changed is journaled even if the mutation fails part way.
+  async inOperation<T>(context: MutationContext, mutate: (context: MutationContext) => Promise<T>): Promise<T> {
+    if (context.operation) {
+      return mutate(context);
+    }
+
+    const operation: TodoOperation = {
+      id: this.generateUUID(),
+      at: new Date().toISOString(),
+      ...(context.conversation && { conversation: context.conversation }),
+      versions: []
+    };
+
+    try {
+      return await mutate({ ...context, operation });
+    } finally {
+      // Without an explicit conversation, the operation belongs to the conversation of the task it changed
+      const [before, after] = operation.versions[0] || [];
+      const conversation = operation.conversation || after?.conversation || before?.conversation;
+      this.journal.record({ ...operation, ...(conversation && { conversation }) });
+    }
+  }
+
+  // Undo the latest operation, optionally only from one conversation; null when there's nothing to undo
+  async undoLastChange(context: ChangeContext = {}): Promise<UndoResult | null> {
+    const operation = this.journal.lastDone(context.conversation);
+    if (!operation) {
+      return null;
+    }
+
+    // Each task goes back to its state before the operation's first change to it
+    const result = await this.restoreVersions(operation, [...operation.versions].reverse().map(([before, after]) => [after, before]), {
+      ...context,
+      reason: context.reason || `Undo of operation ${operation.id}`
+    });
+    this.journal.markUndone(operation);
+
+    return result;
+  }
+
+  // Redo the latest undone operation, optionally only from one conversation; null when there's nothing to redo
+  async redo(context: ChangeContext = {}): Promise<UndoResult | null> {
+    const operation = this.journal.lastUndone(context.conversation);
+    if (!operation) {
+      return null;
+    }
+
+    const result = await this.restoreVersions(operation, operation.versions, {
+      ...context,
+      reason: context.reason || `Redo of operation ${operation.id}`
+    });
+    this.journal.markRedone(operation);
+
+    return result;
+  }
+
+  // Move each task from its current version to a target version, collapsing several steps for the same
+  // task into one. Nothing is changed if any task has been changed since, so newer work is never lost.
+  // Tasks that stop existing go to the trash.
+  async restoreVersions(operation: TodoOperation, steps: TodoVersions[], context: ChangeContext): Promise<UndoResult> {
+    const targets = new Map<string, TodoVersions>();
+    for (const [from, to] of steps) {
+      const id = ((from || to) as Todo).id;
+      targets.set(id, [targets.get(id)?.[0] ?? from, to]);
+    }
+
+    for (const [id, [expected]] of targets) {
+      const current = await this.repository.getById(id);
+      if (diffTodos(current, expected).length > 0) {
+        throw new Error(`Task ${id} has changed since operation ${operation.id}; refusing to overwrite newer changes`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const changes = [...targets].filter(([, [expected, target]]) => expected || target);
+    const applied = await this.repository.applyBatch({
+      remove: changes.filter(([, [, target]]) => !target).map(([id]) => id),
+      update: new Map(changes
+        .filter(([, [expected, target]]) => expected && target)
+        .map(([id, [, target]]) => [id, (current: Todo) => ({ ...target as Todo, version: (current.version ?? 0) + 1, updatedAt: now })])),
+      insert: changes
+        .filter(([, [expected]]) => !expected)
+        .map(([, [, target]]) => ({ ...target as Todo, version: ((target as Todo).version ?? 0) + 1, updatedAt: now }))
+    });
+
+    await this.moveToTrash(applied.removed);
+    await this.trash.applyBatch({ remove: applied.inserted.map(todo => todo.id) });
+
+    await this.recordChanges('updated', applied.updated.map(todo => [targets.get(todo.id)?.[0] || null, todo]), context);
+    await this.recordChanges('created', applied.inserted.map(todo => [null, todo]), context);
+    await this.recordChanges('deleted', applied.removed.map(todo => [todo, null]), context);
+
+    return {
+      operation: operation.id,
+      tasks: [...applied.updated, ...applied.inserted],
+      removed: applied.removed.map(todo => todo.id)
+    };
+  }
+
+  // Keep hard-deleted todos in the trash so they can be restored
+  async moveToTrash(todos: Todo[]): Promise<void> {
+    const deletedAt = new Date().toISOString();
+    await this.trash.applyBatch({
+      remove: todos.map(todo => todo.id),
+      insert: todos.map(todo => ({ ...todo, deletedAt }))
+    });
+  }
+
+  // Get the tasks in the trash, most recently deleted first
+  async getTrash(): Promise<Todo[]> {
+    return (await this.trash.getAll()).sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+  }
+
+  // Bring a task back from the trash. Links to tasks that no longer exist are dropped.
+  async restoreTodo(id: string, context: MutationContext = {}): Promise<Todo | null> {
+    return this.inOperation(context, async context => {
+      const trashed = await this.trash.getById(id);
+      if (!trashed) {
+        return null;
+      }
+
+      const existingIds = new Set((await this.repository.getAll()).map(todo => todo.id));
+      const restored: Todo = { ...trashed, version: (trashed.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+      delete restored.deletedAt;
+
+      if (restored.parentId && !existingIds.has(restored.parentId)) {
+        delete restored.parentId;
+      }
+
+      const dependsOn = (restored.dependsOn || []).filter(depId => existingIds.has(depId));
+      if (dependsOn.length > 0) {
+        restored.dependsOn = dependsOn;
+      } else {
+        delete restored.dependsOn;
+      }
+
+      await this.repository.insert(restored);
+      await this.trash.remove(id);
+      await this.recordChanges('restored', [[null, restored]], context);
+
+      return restored;
+    });
+  }
+
+  // Permanently remove tasks that have been in the trash for at least the given number of days
+  async emptyTrash(olderThanDays = 30): Promise<Todo[]> {
+    const cutoff = Date.now() - olderThanDays * DAY_MS;
+    const expired = (await this.trash.getAll()).filter(todo => Date.parse(todo.deletedAt || '') <= cutoff);
+
+    for (const todo of expired) {
+      await this.trash.remove(todo.id);
+    }
+
+    return expired;
+  }
+
+  // Get the recorded changes to a todo, oldest first; null if it has neither history nor exists
+  async getTodoHistory(id: string): Promise<TodoHistoryEntry[] | null> {
+    const entries = await this.history.getForTask(id);
+    if (entries.length === 0 && !await this.repository.getById(id)) {
+      return null;
+    }
+
+    return entries;
+  }
+
+  // Get recent changes across all projects in scope, newest first
+  async getActivity(query: ActivityQuery & WorkspaceScope = {}): Promise<TodoHistoryEntry[]> {
+    const { limit = 50, ...filters } = query;
+    const entries = await this.history.getRecent({ since: filters.since, project: filters.project });
+
+    return entries.filter(entry => this.inScope(entry, filters)).slice(0, limit);
+  }
+
+  // Create a new todo
+  async createTodo(todoData: NewTodo, context: MutationContext = {}): Promise<Todo> {
+    const [newTodo] = await this.createTodos([todoData], context);
+    return newTodo;
+  }
+
+  // Create several todos in one change. Everything is validated before anything is written.
+  // Tasks can name earlier tasks in the batch as their parent, and any task in the batch as a
+  // dependency, by key.
+  async createTodos(items: NewTodo[], context: MutationContext = {}): Promise<Todo[]> {
+    return this.inOperation(context, async context => {
+      const existingTodos = await this.repository.getAll();
+      const idsByKey = new Map<string, string>();
+
+      const ids = items.map(item => {
+        const id = this.generateUUID();
+        if (item.key) {
+          if (idsByKey.has(item.key)) {
+            throw new Error(`Duplicate key in batch: ${item.key}`);
+          }
+          idsByKey.set(item.key, id);
+        }
+        return id;
+      });
+      const resolve = (ref: string) => idsByKey.get(ref) || ref;
+
+      const newTodos: Todo[] = [];
+      for (const [index, { checklist: checklistTexts, ...item }] of items.entries()) {
+        let todoData: Partial<Todo> = {
+          ...item,
+          parentId: item.parentId && resolve(item.parentId),
+          dependsOn: item.dependsOn?.map(resolve)
+        };
+
+        if (todoData.parentId) {
+          if (item.parentId && idsByKey.has(item.parentId) && !newTodos.some(todo => todo.id === todoData.parentId)) {
+            throw new Error(`Parent task ${item.parentId} must come before its subtasks in the batch`);
+          }
+
+          const parent = await this.validateParent(todoData.parentId, ids[index], [...existingTodos, ...newTodos]);
+
+          // Subtasks live alongside their parent unless told otherwise
+          todoData = {
+            ...todoData,
+            project: todoData.project ?? parent.project,
+            conversation: todoData.conversation ?? parent.conversation,
+            workspace: todoData.workspace ?? parent.workspace
+          };
+        }
+
+        if (todoData.status) {
+          this.workflows.checkStatus(todoData.status, todoData.project);
+        }
+
+        if (todoData.recurrence) {
+          parseRecurrence(todoData.recurrence);
+        }
+
+        const tags = normalizeTags(todoData.tags || []);
+        const checklist = (checklistTexts || []).map(text => this.newChecklistItem(text));
+        const description = todoData.description?.trim();
+        const status = todoData.status || this.workflows.initialStatus(todoData.project);
+        const now = new Date().toISOString();
+        const working = this.workflows.category(status, todoData.project) === 'in_progress';
+        const acceptanceCriteria = todoData.acceptanceCriteria?.trim();
+        const assignee = todoData.assignee?.trim();
+        const dueAt = todoData.dueAt && normalizeTimestamp(todoData.dueAt, 'dueAt');
+        const remindAt = todoData.remindAt && normalizeTimestamp(todoData.remindAt, 'remindAt');
+
+        newTodos.push({
+          id: ids[index],
+          content: todoData.content || '',
+          ...(description && { description }),
+          ...(acceptanceCriteria && { acceptanceCriteria }),
+          status,
+          priority: todoData.priority || 'medium',
+          ...(assignee && { assignee }),
+          version: 1,
+          createdAt: now,
+          updatedAt: now,
+          ...(todoData.project && { project: todoData.project }),
+          ...(todoData.conversation && { conversation: todoData.conversation }),
+          ...((todoData.workspace || this.workspace) && { workspace: todoData.workspace || this.workspace }),
+          ...(todoData.parentId && { parentId: todoData.parentId }),
+          ...(todoData.dependsOn?.length && { dependsOn: [...new Set(todoData.dependsOn)] }),
+          ...(dueAt && { dueAt }),
+          ...(remindAt && { remindAt }),
+          ...(tags.length && { tags }),
+          ...(todoData.recurrence && { recurrence: todoData.recurrence.trim() }),
+          ...(checklist.length && { checklist }),
+          ...(todoData.estimateMinutes && { estimateMinutes: checkEstimate(todoData.estimateMinutes) }),
+          // Tasks created as in progress start their timer straight away
+          ...(working && { timeEntries: [this.newTimeEntry('timer', now)] })
+        } as Todo);
+      }
+
+      // Dependencies can point at later tasks in the batch, so they are checked once every task is known
+      for (const todo of newTodos) {
+        if (todo.dependsOn) {
+          await this.validateDependencies(todo.dependsOn, todo.id, [...existingTodos, ...newTodos]);
+        }
+      }
+    
+      await this.repository.applyBatch({ insert: newTodos });
+      await this.recordChanges('created', newTodos.map(todo => [null, todo]), context);
+    
+      return newTodos;
+    });
+  }
+
+  // Apply updates to a todo, normalizing the fields that need it
+  applyUpdates(existing: Todo, updates: TodoUpdates): Todo {
+    const updatedTodo = {
+      ...existing,
+      ...updates,
+      version: (existing.version ?? 0) + 1,
+      updatedAt: new Date().toISOString()
+    } as Todo;
+
+    for (const field of CLEARABLE_FIELDS) {
+      if (updates[field] === null) {
+        delete updatedTodo[field];
+      }
+    }
+
+    if (updates.dueAt) {
+      updatedTodo.dueAt = normalizeTimestamp(updates.dueAt, 'dueAt');
+    }
+
+    if (updates.remindAt) {
+      updatedTodo.remindAt = normalizeTimestamp(updates.remindAt, 'remindAt');
+    }
+
+    if (updatedTodo.tags) {
+      updatedTodo.tags = normalizeTags(updatedTodo.tags);
+      if (updatedTodo.tags.length === 0) {
+        delete updatedTodo.tags;
+      }
+    }
+
+    for (const field of ['description', 'acceptanceCriteria', 'assignee'] as const) {
+      const text = updatedTodo[field]?.trim();
+      if (text) {
+        updatedTodo[field] = text;
+      } else {
+        delete updatedTodo[field];
+      }
+    }
+
+    if (updatedTodo.checklist?.length === 0) {
+      delete updatedTodo.checklist;
+    }
+
+    if (updates.estimateMinutes) {
+      checkEstimate(updates.estimateMinutes);
+    }
+
+    if (updates.recurrence) {
+      parseRecurrence(updates.recurrence);
+      updatedTodo.recurrence = updates.recurrence.trim();
+    }
+
+    // Timers follow the status: moving into work starts one and moving anywhere else stops it
+    if (updates.status !== undefined && updates.status !== existing.status) {
+      const entries = updatedTodo.timeEntries || [];
+      if (this.workflows.category(updatedTodo.status, updatedTodo.project) !== 'in_progress') {
+        updatedTodo.timeEntries = stopEntries(entries, updatedTodo.updatedAt);
+      } else if (!runningEntry(updatedTodo)) {
+        updatedTodo.timeEntries = [...entries, this.newTimeEntry('timer', updatedTodo.updatedAt)];
+      }
+
+      // Closing a task releases its claim
+      if (!isOpen(updatedTodo, this.workflows)) {
+        delete updatedTodo.claimedBy;
+        delete updatedTodo.claimExpiresAt;
+      }
+    }
+
+    if (updatedTodo.dependsOn) {
+      if (updatedTodo.dependsOn.length > 0) {
+        updatedTodo.dependsOn = [...new Set(updatedTodo.dependsOn)];
+      } else {
+        delete updatedTodo.dependsOn;
+      }
+    }
+
+    return updatedTodo;
+  }
+
+  // Update an existing todo, optionally only if it is still at the expected version
+  async updateTodo(id: string, updates: TodoUpdates, context: MutationContext = {}, expectedVersion?: number): Promise<Todo | null> {
+    if (!await this.repository.getById(id)) {
+      return null;
+    }
+
+    const [updatedTodo] = await this.updateTodos([{ ...updates, id, expectedVersion }], context);
+    return updatedTodo || null;
+  }
+
+  // Update several todos in one change
+  async updateTodos(items: TodoUpdate[], context: MutationContext = {}): Promise<Todo[]> {
+    return this.applyTodoUpdates(items, 'updated', context);
+  }
+
+  // Apply a batch of updates. Every update is validated against the state the whole batch would
+  // produce before anything is written, and cancelling a task cancels its open subtasks in the same change.
+  async applyTodoUpdates(items: TodoUpdate[], action: TodoHistoryAction, context: MutationContext, skipping = new Set<string>()): Promise<Todo[]> {
+    return this.inOperation(context, async context => {
+      const allTodos = await this.repository.getAll();
+      const todosById = new Map(allTodos.map(todo => [todo.id, todo]));
+      const updatesById = new Map<string, TodoUpdates>();
+      const expectedVersions = new Map<string, number>();
+      const now = Date.now();
+
+      for (const { id, expectedVersion, ...updates } of items) {
+        const current = todosById.get(id);
+        if (!current) {
+          throw new Error(`Task not found: ${id}`);
+        }
+
+        checkVersion(current, expectedVersion);
+        if (expectedVersion !== undefined) {
+          expectedVersions.set(id, expectedVersion);
+        }
+
+        // Agents can't change tasks another agent has claimed
+        const holder = activeClaim(current, now);
+        if (holder && context.actor && holder !== context.actor) {
+          throw new Error(`Task ${id} is claimed by ${holder} until ${current.claimExpiresAt}`);
+        }
+
+        updatesById.set(id, { ...updatesById.get(id), ...updates });
+      }
+
+      // Status changes have to follow the task's workflow. Deletes can cancel from any status,
+      // and tasks moving to another project take the closest status that project allows.
+      for (const [id, updates] of updatesById) {
+        const current = todosById.get(id) as Todo;
+        const project = updates.project === undefined ? current.project : updates.project || undefined;
+
+        if (updates.status === undefined) {
+          if (project !== current.project) {
+            const status = this.workflows.mapStatus(current.status, current.project, project);
+            if (status !== current.status) {
+              updatesById.set(id, { ...updates, status });
+            }
+          }
+        } else if (action !== 'updated' || skipping.has(id) || project !== current.project) {
+          this.workflows.checkStatus(updates.status, project);
+        } else {
+          this.workflows.checkTransition(current.status, updates.status, project);
+        }
+      }
+
+      const projected = new Map(todosById);
+      for (const [id, updates] of updatesById) {
+        projected.set(id, this.applyUpdates(todosById.get(id) as Todo, updates));
+      }
+      const projectedTodos = [...projected.values()];
+      const completed = (todo?: Todo) => !!todo && this.workflows.category(todo.status, todo.project) === 'completed';
+
+      for (const [id, updates] of updatesById) {
+        if (updates.parentId) {
+          await this.validateParent(updates.parentId, id, projectedTodos);
+        }
+
+        if (updates.dependsOn?.length) {
+          await this.validateDependencies(updates.dependsOn, id, projectedTodos);
+        }
+
+        // A parent can only be completed once all of its subtasks are closed
+        if (completed(projected.get(id)) && !completed(todosById.get(id))) {
+          const openChildren = projectedTodos.filter(todo => todo.parentId === id && isOpen(todo, this.workflows));
+          if (openChildren.length > 0) {
+            throw new Error(`Cannot complete task ${id} while ${openChildren.length} subtask(s) are still open`);
+          }
+        }
+      }
+
+      // Walk down from every newly cancelled task, remembering which parent cancelled each subtask
+      const cancelledBy = new Map<string, string>();
+      const cancelled = (todo?: Todo) => !!todo && this.workflows.category(todo.status, todo.project) === 'cancelled';
+      const stack = [...updatesById.keys()].filter(id => cancelled(projected.get(id)) && !cancelled(todosById.get(id)));
+      while (stack.length > 0) {
+        const parentId = stack.pop() as string;
+        for (const child of projectedTodos.filter(todo => todo.parentId === parentId && isOpen(todo, this.workflows))) {
+          if (!cancelledBy.has(child.id)) {
+            cancelledBy.set(child.id, parentId);
+            stack.push(child.id);
+          }
+        }
+      }
+
+      // Completing or skipping an occurrence of a recurring task schedules the next one
+      const nextOccurrences = [...updatesById.keys()]
+        .filter(id => skipping.has(id) || (completed(projected.get(id)) && !completed(todosById.get(id))))
+        .map(id => this.nextInSeries(projected.get(id) as Todo))
+        .filter((todo): todo is Todo => todo !== null);
+
+      const before = new Map<string, Todo>();
+      const update = new Map<string, (todo: Todo) => Todo>();
+      for (const id of new Set([...updatesById.keys(), ...cancelledBy.keys()])) {
+        update.set(id, current => {
+          before.set(id, current);
+          const updated = this.applyUpdates(current, updatesById.get(id) || {});
+          return cancelledBy.has(id)
+            ? this.applyUpdates(updated, { status: this.workflows.cancelledStatus(updated.project) })
+            : updated;
+        });
+      }
+
+      // Versions are checked again against the stored tasks, in case another process changed them meanwhile
+      const check = new Map([...expectedVersions].map(([id, version]) => [id, (todo: Todo) => checkVersion(todo, version)]));
+      const { updated } = await this.repository.applyBatch({ check, update, insert: nextOccurrences });
+      const updatedById = new Map(updated.map(todo => [todo.id, todo]));
+      const versionsOf = (ids: string[]): TodoVersions[] => ids
+        .filter(id => updatedById.has(id))
+        .map(id => [before.get(id) || null, updatedById.get(id) || null]);
+
+      await this.recordChanges(action, versionsOf([...updatesById.keys()]), context);
+      for (const [id, parentId] of cancelledBy) {
+        if (!updatesById.has(id)) {
+          await this.recordChanges('updated', versionsOf([id]), { ...context, reason: `Parent task ${parentId} was cancelled` });
+        }
+      }
+      for (const todo of nextOccurrences) {
+        await this.recordChanges('created', [[null, todo]], { ...context, reason: `Next occurrence of recurring task ${todo.seriesId}` });
+      }
+
+      return [...updatesById.keys()].filter(id => updatedById.has(id)).map(id => updatedById.get(id) as Todo);
+    });
+  }
+
+  // Delete a todo
+  async deleteTodo(id: string, hardDelete = false, context: MutationContext = {}, expectedVersion?: number): Promise<Todo | { id: string, deleted: boolean } | null> {
+    if (!await this.repository.getById(id)) {
+      return null;
+    }
+
+    const expectedVersions = new Map(expectedVersion === undefined ? [] : [[id, expectedVersion]]);
+    const [result] = await this.deleteTodos([id], hardDelete, context, expectedVersions);
+    return result || null;
+  }
+
+  // Delete several todos in one change, either by cancelling them or by moving them to the trash.
+  // Hard deletes promote orphaned subtasks to their closest remaining ancestor and drop the
+  // deleted tasks from anything that depended on them. Tasks with an expected version are only
+  // deleted while they are still at it.
+  async deleteTodos(
+    ids: string[],
+    hardDelete = false,
+    context: MutationContext = {},
+    expectedVersions = new Map<string, number>()
+  ): Promise<Array<Todo | { id: string, deleted: boolean }>> {
+    if (!hardDelete) {
+      const todos = await Promise.all(ids.map(id => this.repository.getById(id)));
+      const updates = ids.map((id, i) => ({
+        id,
+        status: this.workflows.cancelledStatus(todos[i]?.project),
+        expectedVersion: expectedVersions.get(id)
+      }));
+      return this.applyTodoUpdates(updates, 'deleted', context);
+    }
+
+    return this.inOperation(context, async context => {
+      const allTodos = await this.repository.getAll();
+      const todosById = new Map(allTodos.map(todo => [todo.id, todo]));
+      const deleting = new Set(ids);
+
+      for (const id of deleting) {
+        const todo = todosById.get(id);
+        if (!todo) {
+          throw new Error(`Task not found: ${id}`);
+        }
+        checkVersion(todo, expectedVersions.get(id));
+      }
+
+      const before = new Map<string, Todo>();
+      const reasons = new Map<string, string>();
+      const update = new Map<string, (todo: Todo) => Todo>();
+
+      for (const todo of allTodos.filter(todo => !deleting.has(todo.id))) {
+        const updates: TodoUpdates = {};
+        const why: string[] = [];
+
+        if (todo.parentId && deleting.has(todo.parentId)) {
+          let parentId: string | undefined = todo.parentId;
+          while (parentId && deleting.has(parentId)) {
+            parentId = todosById.get(parentId)?.parentId;
+          }
+          updates.parentId = parentId ?? null;
+          why.push(`Parent task ${todo.parentId} was deleted`);
+        }
+
+        const deletedDependencies = (todo.dependsOn || []).filter(depId => deleting.has(depId));
+        if (deletedDependencies.length > 0) {
+          updates.dependsOn = (todo.dependsOn || []).filter(depId => !deleting.has(depId));
+          why.push(...deletedDependencies.map(depId => `Dependency ${depId} was deleted`));
+        }
+
+        if (why.length > 0) {
+          reasons.set(todo.id, why.join('; '));
+          update.set(todo.id, current => {
+            before.set(current.id, current);
+            return this.applyUpdates(current, updates);
+          });
+        }
+      }
+
+      const check = new Map([...expectedVersions].map(([id, version]) => [id, (todo: Todo) => checkVersion(todo, version)]));
+      const { removed, updated } = await this.repository.applyBatch({ check, remove: [...deleting], update });
+
+      await this.moveToTrash(removed);
+      await this.recordChanges('deleted', removed.map(todo => [todo, null]), context);
+      for (const todo of updated) {
+        await this.recordChanges('updated', [[before.get(todo.id) || null, todo]], { ...context, reason: reasons.get(todo.id) });
+      }
+
+      return removed.map(todo => ({ id: todo.id, deleted: true }));
+    });
+  }
+
+  // Move todos to another project, or out of any project with null
+  async moveTodos(ids: string[], project: string | null, context: MutationContext = {}): Promise<Todo[]> {
+    return this.inOperation(context, async context => {
+      for (const id of ids) {
+        if (!await this.repository.getById(id)) {
+          throw new Error(`Task not found: ${id}`);
+        }
+      }
+
+      const before = new Map<string, Todo>();
+      const move = (current: Todo) => {
+        before.set(current.id, current);
+        const status = this.workflows.mapStatus(current.status, current.project, project || undefined);
+        return this.applyUpdates(current, { project, status });
+      };
+      const { updated: movedTodos } = await this.repository.applyBatch({ update: new Map(ids.map(id => [id, move])) });
+
+      await this.recordChanges('updated', movedTodos.map(todo => [before.get(todo.id) || null, todo]), context);
+
+      return movedTodos;
+    });
+  }
+
+  // Rename a project, moving every one of its todos across
+  async renameProject(from: string, to: string, context: MutationContext = {}): Promise<Todo[]> {
+    const todos = await this.repository.find({ project: from });
+    if (todos.length === 0) {
+      throw new Error(`Project not found: ${from}`);
+    }
+
+    return this.moveTodos(todos.map(todo => todo.id), to, context);
+  }
+
+  // Filter todos by criteria
+  async filterTodos(filters: TodoFilters): Promise<Todo[]> {
+    // Narrow by the indexed fields first; blocked checks need every todo to look up dependencies
+    const candidates = await this.repository.find({
+      project: filters.project,
+      status: filters.status,
+      conversation: filters.conversation
+    });
+    const todosById = filters.blocked !== undefined
+      ? new Map((await this.repository.getAll()).map(todo => [todo.id, todo]))
+      : new Map<string, Todo>();
+    const now = Date.now();
+    
+    return candidates.filter(todo => {
+      if (!this.inScope(todo, filters)) return false;
+      if (filters.status && todo.status !== filters.status) return false;
+      if (filters.priority && todo.priority !== filters.priority) return false;
+      if (filters.project && todo.project !== filters.project) return false;
+      if (filters.conversation && todo.conversation !== filters.conversation) return false;
+      if (filters.parentId && todo.parentId !== filters.parentId) return false;
+      if (filters.blocked !== undefined && isBlocked(todo, todosById, this.workflows) !== filters.blocked) return false;
+      if (!matchesDueFilters(todo, filters, now, this.workflows)) return false;
+      if (!matchesTagFilters(todo, filters)) return false;
+      if (filters.checklistIncomplete !== undefined && hasOpenChecklistItems(todo) !== filters.checklistIncomplete) return false;
+      if (!matchesClaimFilters(todo, filters, now)) return false;
+      if (filters.keyword && !todo.content.toLowerCase().includes(filters.keyword.toLowerCase())) return false;
+      return true;
+    });
+  }
+
+  // Filter todos, then narrow them with a query condition, sort them and return one page
+  async queryTodos(filters: TodoFilters = {}, options: TodoQueryOptions = {}): Promise<TodoPage> {
+    return queryTodoList(await this.filterTodos(filters), options, todo => this.workflows.category(todo.status, todo.project));
+  }
+
+  // Rank todos by how well their content and tags match a free-text query
+  async searchTodos(query: string, options: SearchTodoOptions = {}): Promise<SearchResult[]> {
+    // Index every todo so relevance doesn't depend on the scope being searched
+    this.searchIndex.sync(await this.repository.getAll());
+
+    const results = this.searchIndex.search(query).filter(result =>
+      this.inScope(result.todo, options) && (!options.project || result.todo.project === options.project)
+    );
+
+    return results.slice(0, options.limit || 20);
+  }
+
+  // Append a timestamped progress note to a todo
+  async addNote(id: string, text: string, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    if (!text.trim()) {
+      throw new Error('Note text cannot be empty');
+    }
+
+    const note: TodoNote = {
+      at: new Date().toISOString(),
+      text: text.trim(),
+      ...(context.actor && { actor: context.actor })
+    };
+    return this.updateTodo(id, { notes: [...(todo.notes || []), note] }, context);
+  }
+
+  // Add an item to the end of a todo's checklist
+  async addChecklistItem(id: string, text: string, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    return this.updateTodo(id, { checklist: [...(todo.checklist || []), this.newChecklistItem(text)] }, context);
+  }
+
+  // Tick a checklist item off, or back on; without done the item is flipped
+  async toggleChecklistItem(id: string, itemId: string, done?: boolean, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    const checklist = todo.checklist || [];
+    const item = checklist.find(entry => entry.id === itemId);
+    if (!item) {
+      throw new Error(`Checklist item not found: ${itemId}`);
+    }
+
+    const isDone = done ?? !item.done;
+    const toggled: ChecklistItem = { id: item.id, text: item.text, done: isDone, ...(isDone && { doneAt: item.doneAt || new Date().toISOString() }) };
+    return this.updateTodo(id, { checklist: checklist.map(entry => entry.id === itemId ? toggled : entry) }, context);
+  }
+
+  newChecklistItem(text: string): ChecklistItem {
+    if (!text.trim()) {
+      throw new Error('Checklist item text cannot be empty');
+    }
+
+    return { id: this.generateUUID(), text: text.trim(), done: false };
+  }
+
+  // Start a timer on a todo without changing its status
+  async startTimer(id: string, note?: string, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    if (runningEntry(todo)) {
+      throw new Error(`A timer is already running for task ${id}`);
+    }
+
+    const entry = this.newTimeEntry('timer', new Date().toISOString(), note, context.actor);
+    return this.updateTodo(id, { timeEntries: [...(todo.timeEntries || []), entry] }, context);
+  }
+
+  // Stop the running timer on a todo
+  async stopTimer(id: string, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    if (!runningEntry(todo)) {
+      throw new Error(`No timer is running for task ${id}`);
+    }
+
+    return this.updateTodo(id, { timeEntries: stopEntries(todo.timeEntries || [], new Date().toISOString()) }, context);
+  }
+
+  // Record time spent on a todo after the fact, as a stretch of work ending at endedAt or now
+  async logTime(id: string, minutes: number, options: { endedAt?: string; note?: string } = {}, context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    if (!(minutes > 0)) {
+      throw new Error(`Logged minutes must be greater than zero, got ${minutes}`);
+    }
+
+    const endedAt = options.endedAt ? normalizeTimestamp(options.endedAt, 'endedAt') : new Date().toISOString();
+    const startedAt = new Date(new Date(endedAt).getTime() - minutes * 60 * 1000).toISOString();
+    const entry = { ...this.newTimeEntry('manual', startedAt, options.note, context.actor), endedAt };
+
+    return this.updateTodo(id, { timeEntries: [...(todo.timeEntries || []), entry] }, context);
+  }
+
+  // Add up the time tracked on todos per project, conversation, day and task
+  async getTimeReport(options: TimeReportOptions = {}): Promise<TimeReport> {
+    const todos = (await this.getAllTodos(options))
+      .filter(todo => !options.project || todo.project === options.project)
+      .filter(todo => !options.conversation || todo.conversation === options.conversation);
+
+    return buildTimeReport(todos, options);
+  }
+
+  newTimeEntry(source: TimeEntry['source'], startedAt: string, note?: string, actor?: string): TimeEntry {
+    return {
+      id: this.generateUUID(),
+      startedAt,
+      source,
+      ...(note && { note }),
+      ...(actor && { actor })
+    };
+  }
+
+  // The next occurrence of a recurring todo, due on the series' next date; null when the series is over
+  nextInSeries(todo: Todo): Todo | null {
+    if (!todo.recurrence) {
+      return null;
+    }
+
+    const recurrence = parseRecurrence(todo.recurrence);
+    const occurrence = (todo.occurrence || 1) + 1;
+    if (recurrence.count && occurrence > recurrence.count) {
+      return null;
+    }
+
+    const now = new Date();
+    const dueAt = nextOccurrence(recurrence, todo.dueAt ? new Date(todo.dueAt) : now, now);
+    if (!dueAt) {
+      return null;
+    }
+
+    // Reminders keep the same lead time before the due date
+    const remindAt = todo.dueAt && todo.remindAt
+      ? new Date(dueAt.getTime() - (new Date(todo.dueAt).getTime() - new Date(todo.remindAt).getTime())).toISOString()
+      : undefined;
+
+    return {
+      id: this.generateUUID(),
+      content: todo.content,
+      ...(todo.description && { description: todo.description }),
+      ...(todo.acceptanceCriteria && { acceptanceCriteria: todo.acceptanceCriteria }),
+      ...(todo.checklist && { checklist: todo.checklist.map(item => ({ id: this.generateUUID(), text: item.text, done: false })) }),
+      ...(todo.estimateMinutes && { estimateMinutes: todo.estimateMinutes }),
+      status: this.workflows.initialStatus(todo.project),
+      priority: todo.priority,
+      ...(todo.assignee && { assignee: todo.assignee }),
+      ...(todo.project && { project: todo.project }),
+      ...(todo.conversation && { conversation: todo.conversation }),
+      ...(todo.workspace && { workspace: todo.workspace }),
+      ...(todo.parentId && { parentId: todo.parentId }),
+      ...(todo.tags && { tags: todo.tags }),
+      dueAt: dueAt.toISOString(),
+      ...(remindAt && { remindAt }),
+      recurrence: todo.recurrence,
+      seriesId: todo.seriesId || todo.id,
+      occurrence,
+      version: 1,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+  }
+
+  // Cancel the current occurrence of a recurring todo and schedule the next one
+  async skipOccurrence(id: string, context: MutationContext = {}): Promise<{ skipped: Todo; next: Todo | null } | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    if (!todo.recurrence) {
+      throw new Error(`Task ${id} does not recur`);
+    }
+    if (!isOpen(todo, this.workflows)) {
+      throw new Error(`Task ${id} is already closed; only open occurrences can be skipped`);
+    }
+
+    return this.inOperation(context, async context => {
+      const status = this.workflows.cancelledStatus(todo.project);
+      const [skipped] = await this.applyTodoUpdates([{ id, status }], 'updated', { ...context, reason: context.reason || 'Occurrence skipped' }, new Set([id]));
+      const created = context.operation?.versions.find(([before, after]) => !before && after?.seriesId === (todo.seriesId || todo.id));
+
+      return { skipped, next: created?.[1] || null };
+    });
+  }
+
+  // Stop a recurring series: its open occurrences stay, but nothing new is scheduled after them
+  async endSeries(id: string, context: MutationContext = {}): Promise<Todo[] | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    const seriesId = todo.seriesId || todo.id;
+    const recurring = (await this.repository.getAll())
+      .filter(member => (member.id === seriesId || member.seriesId === seriesId) && member.recurrence && isOpen(member, this.workflows));
+    if (recurring.length === 0) {
+      throw new Error(`Task ${id} has no open recurring occurrences`);
+    }
+
+    return this.updateTodos(recurring.map(member => ({ id: member.id, recurrence: null })), context);
+  }
+
+  // Claim a todo for an agent, or renew the agent's claim. The check runs against the stored task
+  // inside the repository update, so when several agents race for a task only one of them gets it.
+  async claimTask(id: string, agent: string, leaseMinutes = DEFAULT_LEASE_MINUTES, context: MutationContext = {}): Promise<Todo | null> {
+    if (!agent.trim()) {
+      throw new Error('An agent name is needed to claim a task');
+    }
+    if (!(leaseMinutes > 0)) {
+      throw new Error(`leaseMinutes must be greater than zero, got ${leaseMinutes}`);
+    }
+
+    return this.changeClaim(id, { ...context, actor: context.actor || agent }, (current, now) => {
+      const holder = activeClaim(current, now);
+      if (holder && holder !== agent) {
+        throw new Error(`Task ${id} is claimed by ${holder} until ${current.claimExpiresAt}`);
+      }
+      if (!isOpen(current, this.workflows)) {
+        throw new Error(`Task ${id} is already closed; only open tasks can be claimed`);
+      }
+
+      return { claimedBy: agent, claimExpiresAt: new Date(now + leaseMinutes * 60 * 1000).toISOString() };
+    });
+  }
+
+  // Give up an agent's claim on a todo. Expired claims can be cleared by anyone.
+  async releaseTask(id: string, agent: string, context: MutationContext = {}): Promise<Todo | null> {
+    return this.changeClaim(id, { ...context, actor: context.actor || agent }, (current, now) => {
+      const holder = activeClaim(current, now);
+      if (holder && holder !== agent) {
+        throw new Error(`Task ${id} is claimed by ${holder}, not ${agent}`);
+      }
+
+      return { claimedBy: null, claimExpiresAt: null };
+    });
+  }
+
+  // Apply a claim change worked out from the stored todo, under the repository's write lock
+  async changeClaim(id: string, context: MutationContext, claim: (current: Todo, now: number) => TodoUpdates): Promise<Todo | null> {
+    return this.inOperation(context, async context => {
+      let before: Todo | null = null;
+      const update = (current: Todo) => {
+        before = current;
+        return this.applyUpdates(current, claim(current, Date.now()));
+      };
+
+      const { updated } = await this.repository.applyBatch({ update: new Map([[id, update]]) });
+      if (!updated[0]) {
+        return null;
+      }
+
+      await this.recordChanges('updated', [[before, updated[0]]], context);
+      return updated[0];
+    });
+  }
+
+  // Add tags to a todo, keeping any it already has
+  async addTags(id: string, tags: string[], context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    return this.updateTodo(id, { tags: [...(todo.tags || []), ...tags] }, context);
+  }
+
+  // Remove tags from a todo
+  async removeTags(id: string, tags: string[], context: MutationContext = {}): Promise<Todo | null> {
+    const todo = await this.getTodoById(id);
+    if (!todo) {
+      return null;
+    }
+
+    const removed = new Set(normalizeTags(tags));
+    return this.updateTodo(id, { tags: (todo.tags || []).filter(tag => !removed.has(tag)) }, context);
+  }
+
+  // List every tag in use with the number of tasks carrying it, most used first
+  async listTags(filters: TodoFilters = {}): Promise<TagCount[]> {
+    const todos = await this.filterTodos(filters);
+    const counts = new Map<string, number>();
+
+    for (const todo of todos) {
+      for (const tag of todo.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  // Build nested task trees, either below a single task or for every root task
+  async getTodoTree(options: { rootId?: string; project?: string } & WorkspaceScope = {}): Promise<TodoTreeNode[] | null> {
+    const allTodos = await this.repository.getAll();
+    const ids = new Set(allTodos.map(todo => todo.id));
+    const childrenByParent = new Map<string, Todo[]>();
+
+    for (const todo of allTodos) {
+      if (todo.parentId && ids.has(todo.parentId)) {
+        const siblings = childrenByParent.get(todo.parentId) || [];
+        siblings.push(todo);
+        childrenByParent.set(todo.parentId, siblings);
+      }
+    }
+
+    const buildNode = (todo: Todo): TodoTreeNode => ({
+      ...todo,
+      children: (childrenByParent.get(todo.id) || []).map(buildNode)
+    });
+
+    if (options.rootId) {
+      const root = allTodos.find(todo => todo.id === options.rootId);
+      return root ? [buildNode(root)] : null;
+    }
+
+    // Tasks whose parent no longer exists are treated as roots
+    return allTodos
+      .filter(todo => !todo.parentId || !ids.has(todo.parentId))
+      .filter(todo => this.inScope(todo, options))
+      .filter(todo => !options.project || todo.project === options.project)
+      .map(buildNode);
+  }
+
+  // Get pending tasks that can be started now, most important first.
+  // A task is actionable when all of its dependencies are completed and it has no open subtasks.
+  async getNextTodos(options: NextTodoOptions = {}): Promise<Todo[]> {
+    const allTodos = await this.repository.getAll();
+    const now = Date.now();
+    const todosById = new Map(allTodos.map(todo => [todo.id, todo]));
+    const openParentIds = new Set(allTodos.filter(todo => isOpen(todo, this.workflows)).map(todo => todo.parentId));
+
+    const actionable = allTodos
+      .filter(todo => this.workflows.category(todo.status, todo.project) === 'pending')
+      .filter(todo => this.inScope(todo, options))
+      .filter(todo => !options.project || todo.project === options.project)
+      .filter(todo => !options.conversation || todo.conversation === options.conversation)
+      .filter(todo => !options.agent || matchesClaimFilters(todo, { claimableBy: options.agent }, now))
+      .filter(todo => !isBlocked(todo, todosById, this.workflows) && !openParentIds.has(todo.id))
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.createdAt.localeCompare(b.createdAt));
+
+    return options.limit ? actionable.slice(0, options.limit) : actionable;
+  }
+
+  // The statuses and transitions a project's tasks follow
+  getWorkflow(project?: string): ResolvedWorkflow {
+    return this.workflows.describe(project);
+  }
+
+  // Count the tasks in scope per project and status; tasks without a project are left out
+  async listProjects(scope: WorkspaceScope = {}): Promise<ProjectSummary[]> {
+    const summaries = new Map<string, ProjectSummary>();
+
+    for (const todo of await this.getAllTodos(scope)) {
+      if (!todo.project) {
+        continue;
+      }
+
+      const summary = summaries.get(todo.project) || { project: todo.project, total: 0, open: 0, statuses: {} };
+      summary.total++;
+      summary.open += isOpen(todo, this.workflows) ? 1 : 0;
+      summary.statuses[todo.status] = (summary.statuses[todo.status] || 0) + 1;
+      summaries.set(todo.project, summary);
+    }
+
+    return [...summaries.values()].sort((a, b) => a.project.localeCompare(b.project));
+  }
+
+  // Count tasks per workspace; tasks without one are counted under null
+  async listWorkspaces(): Promise<WorkspaceCount[]> {
+    const counts = new Map<string | null, number>();
+
+    for (const todo of await this.repository.getAll()) {
+      const workspace = todo.workspace || null;
+      counts.set(workspace, (counts.get(workspace) || 0) + 1);
+    }
+
+    return [...counts.entries()]
+      .map(([workspace, count]) => ({ workspace, count }))
+      .sort((a, b) => (a.workspace || '').localeCompare(b.workspace || ''));
+  }
+
+  // Generate a UUID
+  generateUUID(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+      const r = Math.random() * 16 | 0;
+      const v = c === 'x' ? r : (r & 0x3 | 0x8);
+      return v.toString(16);
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeReport } from './todo-time.js';
+import { Todo } from './todo-store.js';
+
+const makeTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  content: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('buildTimeReport', () => {
+  const todos = [
+    makeTodo('a', {
+      project: 'billing',
+      conversation: 'c1',
+      estimateMinutes: 120,
+      timeEntries: [
+        // Crosses midnight, so it is split over two days
+        { id: 'e1', startedAt: '2025-01-01T23:30:00.000Z', endedAt: '2025-01-02T00:30:00.000Z', source: 'timer' },
+        { id: 'e2', startedAt: '2025-01-03T10:00:00.000Z', endedAt: '2025-01-03T10:15:00.000Z', source: 'manual' }
+      ]
+    }),
+    makeTodo('b', {
+      conversation: 'c1',
+      timeEntries: [{ id: 'e3', startedAt: '2025-01-02T09:00:00.000Z', source: 'timer' }]
+    }),
+    makeTodo('c')
+  ];
+  const now = new Date('2025-01-02T09:45:00.000Z').getTime();
+
+  it('should add up time per project, conversation, day and task', () => {
+    const report = buildTimeReport(todos, {}, now);
+
+    expect(report.totalMinutes).toBe(120);
+    expect(report.byProject).toEqual([{ project: 'billing', minutes: 75 }, { project: null, minutes: 45 }]);
+    expect(report.byConversation).toEqual([{ conversation: 'c1', minutes: 120 }]);
+    expect(report.byDay).toEqual([
+      { day: '2025-01-01', minutes: 30 },
+      { day: '2025-01-02', minutes: 75 },
+      { day: '2025-01-03', minutes: 15 }
+    ]);
+    expect(report.byTask.map(task => [task.id, task.minutes, task.estimateMinutes, task.running])).toEqual([
+      ['a', 75, 120, false],
+      ['b', 45, null, true]
+    ]);
+  });
+
+  it('should only count time inside the window', () => {
+    const report = buildTimeReport(todos, { from: '2025-01-02T00:00:00Z', to: '2025-01-03T00:00:00Z' }, now);
+
+    expect(report.totalMinutes).toBe(75);
+    expect(report.byDay).toEqual([{ day: '2025-01-02', minutes: 75 }]);
+    expect(() => buildTimeReport(todos, { from: 'yesterday' })).toThrow('Invalid from timestamp');
+  });
+});
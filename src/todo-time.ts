@@ -0,0 +1,135 @@
+import type { Todo } from './todo-store.js';
+
+// A stretch of work on a task. Running timers have no end yet; logged time is recorded
+// as an entry ending when it was logged.
+export interface TimeEntry {
+  id: string;
+  startedAt: string;
+  endedAt?: string;
+  source: 'timer' | 'manual';
+  note?: string;
+  actor?: string;
+}
+
+export interface TimeReportQuery {
+  // Only count time between these ISO 8601 timestamps
+  from?: string;
+  to?: string;
+}
+
+export interface TaskTime {
+  id: string;
+  content: string;
+  project: string | null;
+  minutes: number;
+  estimateMinutes: number | null;
+  running: boolean;
+}
+
+export interface TimeReport {
+  from: string | null;
+  to: string | null;
+  totalMinutes: number;
+  byProject: Array<{ project: string | null; minutes: number }>;
+  byConversation: Array<{ conversation: string | null; minutes: number }>;
+  // Days are UTC dates
+  byDay: Array<{ day: string; minutes: number }>;
+  byTask: TaskTime[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function runningEntry(todo: Todo): TimeEntry | undefined {
+  return (todo.timeEntries || []).find(entry => !entry.endedAt);
+}
+
+// Close every running entry at the given time
+export function stopEntries(entries: TimeEntry[], at: string): TimeEntry[] {
+  return entries.map(entry => entry.endedAt ? entry : { ...entry, endedAt: at });
+}
+
+// Split an entry into minutes per UTC day, counting only the part inside the window
+function minutesByDay(entry: TimeEntry, window: { from: number; to: number }, now: number): Map<string, number> {
+  const days = new Map<string, number>();
+  let start = Math.max(new Date(entry.startedAt).getTime(), window.from);
+  const end = Math.min(entry.endedAt ? new Date(entry.endedAt).getTime() : now, window.to);
+
+  while (start < end) {
+    const dayEnd = Math.min(end, (Math.floor(start / DAY_MS) + 1) * DAY_MS);
+    const day = new Date(start).toISOString().slice(0, 10);
+    days.set(day, (days.get(day) || 0) + (dayEnd - start) / MINUTE_MS);
+    start = dayEnd;
+  }
+
+  return days;
+}
+
+// Keep reports readable; time is tracked to the millisecond
+function roundMinutes(minutes: number): number {
+  return Math.round(minutes * 10) / 10;
+}
+
+function parseBound(value: string | undefined, field: string, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${field} timestamp: ${value}`);
+  }
+  return time;
+}
+
+// Add up tracked time per project, conversation, day and task. Running timers count up to now.
+export function buildTimeReport(todos: Todo[], query: TimeReportQuery = {}, now = Date.now()): TimeReport {
+  const window = {
+    from: parseBound(query.from, 'from', -Infinity),
+    to: parseBound(query.to, 'to', Infinity)
+  };
+
+  const byProject = new Map<string | null, number>();
+  const byConversation = new Map<string | null, number>();
+  const byDay = new Map<string, number>();
+  const byTask: TaskTime[] = [];
+  const add = <K>(totals: Map<K, number>, key: K, minutes: number) => totals.set(key, (totals.get(key) || 0) + minutes);
+
+  for (const todo of todos) {
+    let minutes = 0;
+
+    for (const entry of todo.timeEntries || []) {
+      for (const [day, dayMinutes] of minutesByDay(entry, window, now)) {
+        add(byDay, day, dayMinutes);
+        minutes += dayMinutes;
+      }
+    }
+
+    if (minutes > 0) {
+      add(byProject, todo.project || null, minutes);
+      add(byConversation, todo.conversation || null, minutes);
+      byTask.push({
+        id: todo.id,
+        content: todo.content,
+        project: todo.project || null,
+        minutes: roundMinutes(minutes),
+        estimateMinutes: todo.estimateMinutes ?? null,
+        running: !!runningEntry(todo)
+      });
+    }
+  }
+
+  const sorted = <K>(totals: Map<K, number>) => [...totals.entries()]
+    .map(([key, minutes]) => [key, roundMinutes(minutes)] as const)
+    .sort((a, b) => b[1] - a[1]);
+
+  return {
+    from: query.from || null,
+    to: query.to || null,
+    totalMinutes: roundMinutes([...byDay.values()].reduce((sum, minutes) => sum + minutes, 0)),
+    byProject: sorted(byProject).map(([project, minutes]) => ({ project, minutes })),
+    byConversation: sorted(byConversation).map(([conversation, minutes]) => ({ conversation, minutes })),
+    byDay: [...byDay.entries()].sort((a, b) => a[0].localeCompare(b[0])).map(([day, minutes]) => ({ day, minutes: roundMinutes(minutes) })),
+    byTask: byTask.sort((a, b) => b.minutes - a.minutes)
+  };
+}
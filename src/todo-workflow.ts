@@ -0,0 +1,155 @@
+// The built-in statuses. Every workflow status behaves like one of them, which decides whether
+// a task counts as open, unblocks its dependents or can be picked up next.
+export const STATUS_CATEGORIES = ['pending', 'in_progress', 'completed', 'cancelled'] as const;
+export type StatusCategory = typeof STATUS_CATEGORIES[number];
+
+export interface WorkflowDefinition {
+  // Every allowed status, mapped to the built-in status it behaves like
+  statuses: Record<string, StatusCategory>;
+  // The statuses each status can move to; statuses without an entry can move to any status
+  transitions?: Record<string, string[]>;
+  // The status new tasks start in; defaults to the first status that behaves like pending
+  initial?: string;
+}
+
+// Workflows from .claude-todos.json: one per project, and a default for everything else
+export interface WorkflowConfig {
+  default?: WorkflowDefinition;
+  projects?: Record<string, WorkflowDefinition>;
+}
+
+// A workflow as reported to clients, with its defaults filled in
+export interface ResolvedWorkflow {
+  project: string | null;
+  statuses: Record<string, StatusCategory>;
+  transitions: Record<string, string[]> | null;
+  initial: string;
+}
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  statuses: {
+    pending: 'pending',
+    in_progress: 'in_progress',
+    completed: 'completed',
+    cancelled: 'cancelled'
+  }
+};
+
+// Check a workflow definition, naming it in the error so a bad config file is easy to fix
+export function validateWorkflow(workflow: WorkflowDefinition, name: string): WorkflowDefinition {
+  const statuses = Object.entries(workflow?.statuses || {});
+  if (statuses.length === 0) {
+    throw new Error(`Workflow ${name} has no statuses`);
+  }
+
+  for (const [status, category] of statuses) {
+    if (!STATUS_CATEGORIES.includes(category)) {
+      throw new Error(`Status "${status}" in workflow ${name} must behave like one of ${STATUS_CATEGORIES.join(', ')}, not "${category}"`);
+    }
+  }
+
+  // Tasks have to be able to finish, and deleting or cascading a cancel needs somewhere to go
+  for (const required of ['completed', 'cancelled'] as const) {
+    if (!statuses.some(([, category]) => category === required)) {
+      throw new Error(`Workflow ${name} needs a status that behaves like ${required}`);
+    }
+  }
+
+  for (const [from, targets] of Object.entries(workflow.transitions || {})) {
+    for (const status of [from, ...targets]) {
+      if (!workflow.statuses[status]) {
+        throw new Error(`Transition from "${from}" in workflow ${name} refers to unknown status "${status}"`);
+      }
+    }
+  }
+
+  if (workflow.initial && !workflow.statuses[workflow.initial]) {
+    throw new Error(`Initial status "${workflow.initial}" of workflow ${name} is not one of its statuses`);
+  }
+
+  return workflow;
+}
+
+/**
+ * The workflow of each project: which statuses its tasks can have and how they can move
+ * between them. Projects without their own workflow use the default one.
+ */
+export class Workflows {
+  private defaultWorkflow: WorkflowDefinition;
+  private projects = new Map<string, WorkflowDefinition>();
+
+  constructor(config: WorkflowConfig = {}) {
+    this.defaultWorkflow = config.default ? validateWorkflow(config.default, 'default') : DEFAULT_WORKFLOW;
+
+    for (const [project, workflow] of Object.entries(config.projects || {})) {
+      this.projects.set(project, validateWorkflow(workflow, `for project ${project}`));
+    }
+  }
+
+  forProject(project?: string): WorkflowDefinition {
+    return (project && this.projects.get(project)) || this.defaultWorkflow;
+  }
+
+  describe(project?: string): ResolvedWorkflow {
+    const workflow = this.forProject(project);
+
+    return {
+      project: project || null,
+      statuses: workflow.statuses,
+      transitions: workflow.transitions || null,
+      initial: this.initialStatus(project)
+    };
+  }
+
+  // How a status behaves. Statuses a project doesn't know, such as ones left over from a
+  // workflow that has since changed, behave like the built-in status of the same name or pending.
+  category(status: string, project?: string): StatusCategory {
+    return this.forProject(project).statuses[status]
+      || (STATUS_CATEGORIES.includes(status as StatusCategory) ? status as StatusCategory : 'pending');
+  }
+
+  initialStatus(project?: string): string {
+    const workflow = this.forProject(project);
+    return workflow.initial || this.firstWithCategory('pending', project) || Object.keys(workflow.statuses)[0];
+  }
+
+  // The status tasks move to when they are deleted or their parent is cancelled
+  cancelledStatus(project?: string): string {
+    return this.firstWithCategory('cancelled', project) as string;
+  }
+
+  // Keep a status when a task moves to another project if that project allows it,
+  // otherwise use the first of its statuses that behaves the same way
+  mapStatus(status: string, from: string | undefined, to: string | undefined): string {
+    if (this.forProject(to).statuses[status]) {
+      return status;
+    }
+
+    return this.firstWithCategory(this.category(status, from), to) || this.initialStatus(to);
+  }
+
+  checkStatus(status: string, project?: string): void {
+    const statuses = Object.keys(this.forProject(project).statuses);
+    if (!statuses.includes(status)) {
+      throw new Error(`Status "${status}" is not allowed ${this.where(project)}; expected one of ${statuses.join(', ')}`);
+    }
+  }
+
+  checkTransition(from: string, to: string, project?: string): void {
+    this.checkStatus(to, project);
+
+    const allowed = this.forProject(project).transitions?.[from];
+    if (from !== to && allowed && !allowed.includes(to)) {
+      const options = allowed.length > 0 ? `it can move to ${allowed.join(', ')}` : 'it is a final status';
+      throw new Error(`Cannot move a task from "${from}" to "${to}" ${this.where(project)}; ${options}`);
+    }
+  }
+
+  private firstWithCategory(category: StatusCategory, project?: string): string | undefined {
+    return Object.entries(this.forProject(project).statuses).find(([, behavesLike]) => behavesLike === category)?.[0];
+  }
+
+  private where(project?: string): string {
+    return project && this.projects.has(project) ? `in project ${project}` : 'in the default workflow';
+  }
+}